@@ -0,0 +1,33 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { componentNamesToTypeScript, generateComponentNames, parseEntityMetadata } from "../tooling/Codegen";
+import { parseFormXml } from "../tooling/FormXml";
+
+
+/**
+ * Generates the component name types of exported form XML files and saved entity metadata, to be used with `D365Event.for`.
+ */
+export async function codegenCommand(argv: string[]) {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            formxml: { type: "string", multiple: true },
+            metadata: { type: "string", multiple: true },
+            out: { type: "string" },
+        },
+    });
+
+    if (!values.formxml?.length && !values.metadata?.length) throw new Error("[codegen] At least one --formxml or --metadata file is required.");
+
+    const forms = (values.formxml ?? []).flatMap(formXmlPath => parseFormXml(readFileSync(formXmlPath, "utf8"), basename(formXmlPath, ".xml")));
+    const entities = (values.metadata ?? []).flatMap(metadataPath => parseEntityMetadata(readFileSync(metadataPath, "utf8")));
+
+    const output = componentNamesToTypeScript(generateComponentNames(forms, entities));
+    if (values.out) {
+        writeFileSync(values.out, output);
+    }
+    else {
+        process.stdout.write(output);
+    }
+}
@@ -0,0 +1,55 @@
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { describeModule, type HandlerManifest, manifestToMarkdown } from "../core/Manifest";
+import { installFakeXrm } from "../testing/FormHarness";
+
+
+/**
+ * Loads compiled handler modules and prints the manifest of their handler classes.
+ *
+ * @remarks
+ * The modules must export their handler classes and resolve the same `@sguez/d365-event-decorators` package as the CLI,
+ * otherwise their decorators are registered in another registry.
+ */
+export async function describeCommand(argv: string[]) {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            format: { type: "string", default: "markdown" },
+            out: { type: "string" },
+        },
+    });
+
+    if (positionals.length === 0) throw new Error("[describe] At least one compiled module path is required.");
+    if (values.format !== "markdown" && values.format !== "json") throw new Error(`[describe] Unknown format "${values.format}", expected "markdown" or "json".`);
+
+    const manifests: HandlerManifest[] = [];
+    for (const modulePath of positionals) {
+        manifests.push(...describeModule(await loadModule(modulePath)));
+    }
+
+    const output = values.format === "json" ? JSON.stringify(manifests, null, 2) : manifestToMarkdown(manifests);
+    if (values.out) {
+        writeFileSync(values.out, output);
+    }
+    else {
+        process.stdout.write(output + "\n");
+    }
+}
+
+/**
+ * Imports a compiled module with a fake `Xrm` global, merging CommonJS `module.exports` with the named exports.
+ */
+export async function loadModule(modulePath: string): Promise<Record<string, unknown>> {
+    installFakeXrm();
+    const moduleNamespace = await import(pathToFileURL(resolve(modulePath)).href);
+    const defaultExport = moduleNamespace.default;
+
+    return {
+        ...(typeof defaultExport === "object" && defaultExport !== null ? defaultExport : {}),
+        ...moduleNamespace,
+    };
+}
@@ -0,0 +1,36 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { getRegisteredCommands } from "../core/Commands";
+import { getRegisteredFormScripts } from "../core/FormScripts";
+import { loadModule } from "./describe";
+
+
+/**
+ * Loads compiled modules and prints, as JSON, the global functions they register with `registerFormScript` and `registerCommands`.
+ *
+ * @remarks
+ * Meant for deployment tooling setting the form libraries, event handlers and command definitions.
+ */
+export async function entrypointsCommand(argv: string[]) {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            out: { type: "string" },
+        },
+    });
+
+    if (positionals.length === 0) throw new Error("[entrypoints] At least one compiled module path is required.");
+
+    for (const modulePath of positionals) {
+        await loadModule(modulePath);
+    }
+
+    const output = JSON.stringify({ formScripts: getRegisteredFormScripts(), commands: getRegisteredCommands() }, null, 2);
+    if (values.out) {
+        writeFileSync(values.out, output);
+    }
+    else {
+        process.stdout.write(output + "\n");
+    }
+}
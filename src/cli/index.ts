@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import { codegenCommand } from "./codegen";
+import { describeCommand } from "./describe";
+import { entrypointsCommand } from "./entrypoints";
+import { validateCommand } from "./validate";
+
+
+const commands: Record<string, (argv: string[]) => Promise<void>> = {
+    codegen: codegenCommand,
+    describe: describeCommand,
+    entrypoints: entrypointsCommand,
+    validate: validateCommand,
+};
+
+const usage = `Usage: d365-event-decorators <command> [options]
+
+Commands:
+  codegen [--formxml <file>...] [--metadata <file>...] [--out <file>]
+      Generates the component name types of forms and tables, to be used with D365Event.for.
+  describe <module...> [--format markdown|json] [--out <file>]
+      Lists the decorated handlers of the handler classes exported by compiled modules.
+  entrypoints <module...> [--out <file>]
+      Lists, as JSON, the global functions registered by compiled modules with registerFormScript and registerCommands.
+  validate <module...> --formxml <file> [--formxml <file>...] --form "<form name or id>=<ClassName>" [--form ...] [--format text|json]
+      Checks the component names used by the decorators of each class against the form it is mapped to.`;
+
+
+async function main(argv: string[]) {
+    const [commandName, ...commandArgs] = argv;
+    const command = commandName ? commands[commandName] : undefined;
+
+    if (!command) {
+        console.error(usage);
+        process.exitCode = 1;
+        return;
+    }
+
+    await command(commandArgs);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
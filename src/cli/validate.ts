@@ -0,0 +1,80 @@
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import { getFormEvents } from "../core/Registry";
+import { type FormHandlerMapping, type FormValidationResult, isMappedForm, validateFormXml } from "../tooling/FormValidator";
+import { parseFormXml } from "../tooling/FormXml";
+import { loadModule } from "./describe";
+
+
+/**
+ * Validates the component names used by the handler classes of compiled modules against exported form XML files.
+ *
+ * @remarks
+ * Each `--form "<form name or id>=<ClassName>"` option maps a handler class to the form it is registered on, only these pairs
+ * are checked. Sets a non-zero exit code when an issue is found, so the command can fail a CI pipeline.
+ */
+export async function validateCommand(argv: string[]) {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            formxml: { type: "string", multiple: true },
+            form: { type: "string", multiple: true },
+            format: { type: "string", default: "text" },
+        },
+    });
+
+    if (positionals.length === 0) throw new Error("[validate] At least one compiled module path is required.");
+    if (!values.formxml?.length) throw new Error("[validate] At least one --formxml file is required.");
+    if (!values.form?.length) throw new Error(`[validate] At least one --form "<form name or id>=<ClassName>" mapping is required.`);
+    if (values.format !== "text" && values.format !== "json") throw new Error(`[validate] Unknown format "${values.format}", expected "text" or "json".`);
+
+    const handlerClasses: Function[] = [];
+    for (const modulePath of positionals) {
+        for (const exported of Object.values(await loadModule(modulePath))) {
+            if (typeof exported === "function" && getFormEvents(exported).length > 0 && !handlerClasses.includes(exported)) {
+                handlerClasses.push(exported);
+            }
+        }
+    }
+
+    const mappings = values.form.map(mapping => parseFormMapping(mapping, handlerClasses));
+    const formXmls = values.formxml.map(formXmlPath => ({ xml: readFileSync(formXmlPath, "utf8"), sourceName: basename(formXmlPath) }));
+
+    const forms = formXmls.flatMap(({ xml, sourceName }) => parseFormXml(xml, sourceName));
+    const unknownForms = mappings.filter(mapping => !forms.some(form => isMappedForm(form, mapping.form))).map(mapping => mapping.form);
+    if (unknownForms.length > 0) throw new Error(`[validate] Form "${unknownForms.join('", "')}" not found in the --formxml files.`);
+
+    const results = formXmls.flatMap(({ xml, sourceName }) => validateFormXml(mappings, xml, sourceName));
+
+    process.stdout.write((values.format === "json" ? JSON.stringify(results, null, 2) : formatResults(results)) + "\n");
+
+    if (results.some(result => result.issues.length > 0)) {
+        process.exitCode = 1;
+    }
+}
+
+function parseFormMapping(mapping: string, handlerClasses: Function[]): FormHandlerMapping {
+    const separatorIndex = mapping.lastIndexOf("=");
+    if (separatorIndex <= 0) throw new Error(`[validate] Invalid --form "${mapping}", expected "<form name or id>=<ClassName>".`);
+
+    const className = mapping.slice(separatorIndex + 1).trim();
+    const handlerClass = handlerClasses.find(handlerClass => handlerClass.name === className);
+    if (!handlerClass) throw new Error(`[validate] Handler class "${className}" of --form "${mapping}" is not exported by the modules.`);
+
+    return { form: mapping.slice(0, separatorIndex).trim(), handlerClass };
+}
+
+function formatResults(results: FormValidationResult[]): string {
+    const lines: string[] = [];
+
+    for (const result of results) {
+        lines.push(`${result.formName}${result.entityName ? ` (${result.entityName})` : ""} - ${result.classNames.join(", ")}: ${result.issues.length === 0 ? "OK" : `${result.issues.length} issue(s)`}`);
+        for (const issue of result.issues) {
+            lines.push(`  - ${issue.message}`);
+        }
+    }
+
+    return lines.join("\n");
+}
@@ -0,0 +1,113 @@
+import { errorMessage } from "../utils/logger";
+import { getOrCreateNamespace } from "../utils/namespace";
+import { flushGroupedWarnings, isPromiseLike, logGroupedWarning } from "./Dispatcher";
+import { type CommandFunctionManifest, type CommandManifest, describeCommands } from "./Manifest";
+import { CommandTypes } from "./Types";
+
+
+/**
+ * Context passed to the methods decorated with `D365Command`.
+ *
+ * @remarks
+ * Add the `PrimaryControl` CRM parameter first in the command definition and, for subgrid commands, `SelectedControl` after it.
+ */
+export type CommandContext = {
+    /** Form context on a form command bar, grid control on a home grid command bar. */
+    primaryControl: Xrm.FormContext | Xrm.Controls.GridControl | undefined;
+    /** The primary control when the command runs on a form. */
+    formContext: Xrm.FormContext | undefined;
+    /** The grid the command runs on: the `SelectedControl` parameter, or the primary control on a home grid. */
+    selectedControl: Xrm.Controls.GridControl | undefined;
+    /** Parameters following the primary control, in the order of the command definition. */
+    parameters: unknown[];
+}
+
+
+const registeredCommands: CommandManifest[] = [];
+
+
+/**
+ * Exposes the `D365Command` methods of a class under a global namespace, for example `Contoso.Account.Commands.isApproveEnabled`.
+ *
+ * @remarks
+ * Call it when the web resource referenced by the command definition is loaded. The class is instantiated, without argument,
+ * on the first command call and the same instance handles the following calls. Existing functions of the namespace are kept,
+ * functions with the same name are replaced.
+ *
+ * @returns The namespace object.
+ */
+export function registerCommands(namespace: string, commandClass: new () => object): Record<string, unknown> {
+    const manifest = describeCommands(commandClass, namespace);
+    const namespaceObject = getOrCreateNamespace(namespace);
+    let instance: object | undefined;
+
+    for (const command of manifest.commands) {
+        if (command.name in namespaceObject) {
+            logGroupedWarning(`[D365Command] "${command.fullName}" is already defined, replaced by ${commandClass.name}.${command.functionName}.`);
+        }
+
+        namespaceObject[command.name] = (...args: unknown[]) => {
+            instance ??= new commandClass();
+            return invokeCommand(instance, manifest.className, command, createCommandContext(args));
+        };
+    }
+    flushGroupedWarnings();
+
+    const existingIndex = registeredCommands.findIndex(registered => registered.namespace === namespace && registered.className === manifest.className);
+    registeredCommands.splice(existingIndex === -1 ? registeredCommands.length : existingIndex, 1, manifest);
+
+    return namespaceObject;
+}
+
+/**
+ * Returns the manifests of the command classes registered with {@link registerCommands}.
+ */
+export function getRegisteredCommands(): readonly CommandManifest[] {
+    return registeredCommands;
+}
+
+
+/**
+ * Calls the command method: a failing rule is reported and evaluates to false, a failing action is reported and rejects.
+ */
+function invokeCommand(instance: object, className: string, command: CommandFunctionManifest, context: CommandContext): unknown {
+    const isRule = command.type !== CommandTypes.Action;
+    const reportError = (error: unknown) => {
+        errorMessage(`[D365Command] ${className}.${command.functionName} failed for "${command.fullName}": ${error instanceof Error ? error.message : String(error)}`, error);
+        return isRule ? false : Promise.reject(error);
+    };
+
+    try {
+        const method: unknown = Reflect.get(instance, command.functionName);
+        if (typeof method !== "function") throw new Error(`Method "${command.functionName}" not found on the instance.`);
+
+        const result: unknown = method.call(instance, context);
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).then(value => isRule ? value === true : value, reportError);
+        }
+        return isRule ? result === true : result;
+    }
+    catch (error) {
+        return reportError(error);
+    }
+}
+
+function createCommandContext(args: unknown[]): CommandContext {
+    const [primaryControl, ...parameters] = args;
+    const formContext = isFormContext(primaryControl) ? primaryControl : undefined;
+
+    return {
+        primaryControl: formContext ?? (isGridControl(primaryControl) ? primaryControl : undefined),
+        formContext,
+        selectedControl: [...parameters, primaryControl].find(isGridControl),
+        parameters,
+    };
+}
+
+function isFormContext(value: unknown): value is Xrm.FormContext {
+    return typeof (value as Xrm.FormContext | undefined)?.data?.entity === "object" && typeof (value as Xrm.FormContext).ui === "object";
+}
+
+function isGridControl(value: unknown): value is Xrm.Controls.GridControl {
+    return typeof (value as Xrm.Controls.GridControl | undefined)?.getGrid === "function";
+}
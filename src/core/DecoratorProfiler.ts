@@ -1,3 +1,41 @@
+import { FormEventTypes } from "./Types";
+
+
+export type HandlerInvocation = {
+    className: string;
+    functionName: string;
+    eventType: FormEventTypes;
+    /** Name of the attribute, control or tab triggering the event, undefined for form events. */
+    componentName: string | undefined;
+    /** Start time of the call, from `performance.now()`. */
+    start: number;
+    /** Duration in milliseconds, until the returned promise settled for async handlers. */
+    duration: number;
+    threw: boolean;
+}
+
+export type HandlerStatistics = {
+    className: string;
+    functionName: string;
+    eventType: FormEventTypes;
+    calls: number;
+    errors: number;
+    total: number;
+    average: number;
+    p95: number;
+    max: number;
+}
+
+export type HandlerProfilerOptions = {
+    /**
+     * Maximum number of invocations kept, the oldest ones are dropped first.
+     * @defaultValue 1000
+     */
+    maxInvocations?: number;
+}
+
+
+const instanceProfilers = new WeakMap<object, HandlerProfiler>();
 
 
 export class DecoratorProfiler {
@@ -10,4 +48,142 @@ export class DecoratorProfiler {
     static total(): number {
         return this.durations.reduce((sum, d) => sum + d, 0);
     }
+
+    /**
+     * Starts recording the invocations of the methods dispatched for the given handler instance.
+     *
+     * @remarks
+     * Returns the existing profiler when the instance is already profiled.
+     */
+    static enableFor(instance: object, options: HandlerProfilerOptions = {}): HandlerProfiler {
+        const profiler = instanceProfilers.get(instance) ?? new HandlerProfiler(options);
+        instanceProfilers.set(instance, profiler);
+        return profiler;
+    }
+
+    static disableFor(instance: object): void {
+        instanceProfilers.delete(instance);
+    }
+
+    static getProfiler(instance: object): HandlerProfiler | undefined {
+        return instanceProfilers.get(instance);
+    }
+}
+
+
+/**
+ * Invocations of the dispatched methods of a handler instance, with query helpers.
+ */
+export class HandlerProfiler {
+    private readonly maxInvocations: number;
+    private readonly recordedInvocations: HandlerInvocation[] = [];
+
+    constructor(options: HandlerProfilerOptions = {}) {
+        this.maxInvocations = options.maxInvocations ?? 1000;
+    }
+
+    get invocations(): readonly HandlerInvocation[] {
+        return this.recordedInvocations;
+    }
+
+    record(invocation: HandlerInvocation) {
+        this.recordedInvocations.push(invocation);
+        if (this.recordedInvocations.length > this.maxInvocations) {
+            this.recordedInvocations.splice(0, this.recordedInvocations.length - this.maxInvocations);
+        }
+    }
+
+    clear() {
+        this.recordedInvocations.length = 0;
+    }
+
+    /**
+     * Returns the longest invocations, slowest first.
+     */
+    slowest(count = 10): HandlerInvocation[] {
+        return [...this.recordedInvocations].sort((a, b) => b.duration - a.duration).slice(0, count);
+    }
+
+    /**
+     * Returns the number of calls of each method, keyed by method name.
+     */
+    callCounts(): Record<string, number> {
+        const counts: Record<string, number> = {};
+        for (const invocation of this.recordedInvocations) {
+            counts[invocation.functionName] = (counts[invocation.functionName] ?? 0) + 1;
+        }
+        return counts;
+    }
+
+    /**
+     * Returns the given percentile of the invocation durations of each event type, in milliseconds.
+     */
+    percentileByEvent(percentile = 95): Partial<Record<FormEventTypes, number>> {
+        const durations = new Map<FormEventTypes, number[]>();
+        for (const invocation of this.recordedInvocations) {
+            durations.set(invocation.eventType, [...durations.get(invocation.eventType) ?? [], invocation.duration]);
+        }
+
+        const percentiles: Partial<Record<FormEventTypes, number>> = {};
+        for (const [eventType, eventDurations] of durations) {
+            percentiles[eventType] = computePercentile(eventDurations, percentile);
+        }
+        return percentiles;
+    }
+
+    /**
+     * Aggregates the invocations per method and event type, slowest total first.
+     */
+    statistics(): HandlerStatistics[] {
+        const groups = new Map<string, HandlerInvocation[]>();
+        for (const invocation of this.recordedInvocations) {
+            const key = `${invocation.className}.${invocation.functionName}|${invocation.eventType}`;
+            groups.set(key, [...groups.get(key) ?? [], invocation]);
+        }
+
+        return [...groups.values()].map(invocations => {
+            const durations = invocations.map(invocation => invocation.duration);
+            const total = durations.reduce((sum, duration) => sum + duration, 0);
+            const first = invocations[0]!;
+
+            return {
+                className: first.className,
+                functionName: first.functionName,
+                eventType: first.eventType,
+                calls: invocations.length,
+                errors: invocations.filter(invocation => invocation.threw).length,
+                total,
+                average: total / invocations.length,
+                p95: computePercentile(durations, 95),
+                max: Math.max(...durations),
+            };
+        }).sort((a, b) => b.total - a.total);
+    }
+
+    /**
+     * Logs the statistics of each method with `console.table`, durations rounded to 0.01ms.
+     */
+    report() {
+        console.table(this.statistics().map(statistics => ({
+            method: `${statistics.className}.${statistics.functionName}`,
+            event: statistics.eventType,
+            calls: statistics.calls,
+            errors: statistics.errors,
+            "total (ms)": round(statistics.total),
+            "average (ms)": round(statistics.average),
+            "p95 (ms)": round(statistics.p95),
+            "max (ms)": round(statistics.max),
+        })));
+    }
+}
+
+
+function computePercentile(durations: number[], percentile: number): number {
+    const sorted = [...durations].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1));
+    return sorted[index] ?? 0;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
 }
@@ -1,41 +1,136 @@
 
-import { ComponentEventType, FormEventTypes, GlobalEventType } from "./Types";
-import { upsertFunctionEvent } from "./Registry";
+import { AsyncEventOptions, CommandTypes, ComponentEventType, ComputeOptions, ComponentSelector, ComponentTarget, FormComponentNames, FormEventTypes, GlobalEventType, HandlerFilter, HandlerModifier, ModifierTypes, ParameterTypes, RuleDetails, RuleTypes, SaveEventOptions, SelectorTypes, ValidationDetails, ValidationTypes, ValueChange } from "./Types";
+import { warnMessage } from "../utils/logger";
+import { excludeInheritedFunctionEvents, upsertFunctionCommand, upsertFunctionCompute, upsertFunctionEvent, upsertFunctionFilter, upsertFunctionModifier, upsertFunctionOrder, upsertFunctionParameter, upsertFunctionRule, upsertFunctionValidation } from "./Registry";
 
-function upsertSimpleEvent(formType: GlobalEventType): MethodDecorator {
+function upsertSimpleEvent(formType: GlobalEventType, asyncOptions?: AsyncEventOptions): MethodDecorator {
     return (target, propertyKey) => {
-        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: formType });
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: formType, async: asyncOptions });
     };
 }
-function upsertComponentEvent(formType: ComponentEventType, componentNames: string[]): MethodDecorator {
+function upsertFilter(filter: HandlerFilter): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionFilter(target.constructor, propertyKey.toString(), filter);
+    };
+}
+function upsertModifier(modifier: HandlerModifier): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionModifier(target.constructor, propertyKey.toString(), modifier);
+    };
+}
+function upsertComponentEvent(formType: ComponentEventType, componentNames: ComponentTarget[]): MethodDecorator {
     return (target, propertyKey) => {
         upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: formType, componentNames });
     };
 }
+function readAttributeValue(formContext: Xrm.FormContext, attributeName: string): unknown {
+    // Editable grid rows only expose their attributes through data.entity.
+    const attribute = typeof formContext.getAttribute === "function"
+        ? formContext.getAttribute(attributeName)
+        : formContext.data.entity.attributes.get(attributeName);
+    return attribute?.getValue();
+}
+function upsertParameter(type: ParameterTypes): ParameterDecorator {
+    return (target, propertyKey, parameterIndex) => {
+        if (propertyKey === undefined) {
+            warnMessage(`[D365Event] ${(target as Function).name} - Inject.${type} is ignored on constructor parameters.`);
+            return;
+        }
+        upsertFunctionParameter(target.constructor, propertyKey.toString(), { index: parameterIndex, type });
+    };
+}
+function isSaveEventOptions(options: AsyncEventOptions | SaveEventOptions): options is SaveEventOptions {
+    return "saveModes" in options || "async" in options;
+}
+function isSaveEvent(executionContext: Xrm.Events.EventContext | undefined): boolean {
+    return typeof (executionContext as Partial<Xrm.Events.SaveEventContext> | undefined)?.getEventArgs?.()?.getSaveMode === "function";
+}
+/**
+ * Binds the handler to the OnSave event, filtered on the save mode. Other events of the method are not restricted.
+ */
+function upsertSaveEvent(asyncOptions: AsyncEventOptions | undefined, saveModes: XrmEnum.SaveMode[] | undefined): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnSave, async: asyncOptions });
+        if (!saveModes) return;
 
+        upsertFunctionFilter(target.constructor, propertyKey.toString(), {
+            name: `SaveModes(${saveModes.join(", ")})`,
+            runtime: true,
+            predicate: (_formContext, executionContext) => !isSaveEvent(executionContext)
+                || saveModes.includes((executionContext as Xrm.Events.SaveEventContext).getEventArgs().getSaveMode()),
+        });
+    };
+}
 /**
- * Collection of decorators to bind Dynamics 365 event handlers to class methods.
- * 
- * This utility exposes method decorators for all main Dynamics 365 form, tab, attribute,
- * lookup, subgrid, iframe, process, PCF, and knowledge base search events, 
- * allowing binding event handlers.
- * 
- * Usage example:
- * ```ts
- * class MyFormHandlers {
- *   ⁤@D365Event.Form.OnLoad()
- *   onLoadHandler(executionContext: Xrm.ExecutionContext<Xrm.PageBase>) {
- *     // handler code
- *   }
- *   
- *   ⁤@D365Event.Column.OnChange("firstname")
- *   onFirstNameChange(executionContext: Xrm.ExecutionContext<Xrm.PageBase>) {
- *     // handler code
- *   }
- * }
- * ```
+ * Binds the handler to the OnChange event of the attributes, filtered on the transition of the attribute triggering it.
  */
-export const D365Event = {
+function upsertTransitionEvent(name: string, attributeNames: string[], isTransition: (valueChange: ValueChange) => boolean): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnChange, componentNames: attributeNames });
+        upsertFunctionFilter(target.constructor, propertyKey.toString(), {
+            name,
+            runtime: true,
+            // The filter applies to every event of the method, other attributes and events are not restricted.
+            predicate: (_formContext, executionContext, valueChange) => {
+                const eventSource = executionContext?.getEventSource() as { getName?: () => string } | undefined;
+                if (!valueChange || !attributeNames.includes(eventSource?.getName?.() ?? "")) return true;
+                return isTransition(valueChange);
+            },
+        });
+    };
+}
+function isEmptyValue(value: unknown): boolean {
+    return value === null || value === undefined || value === "" || (Array.isArray(value) && value.length === 0);
+}
+function isSameValue(value: unknown, expected: unknown): boolean {
+    if (isEmptyValue(value) || isEmptyValue(expected)) return isEmptyValue(value) && isEmptyValue(expected);
+    if (value instanceof Date && expected instanceof Date) return value.getTime() === expected.getTime();
+    if (Array.isArray(value) && Array.isArray(expected)) {
+        const getIds = (lookups: unknown[]) => lookups.map(lookup => normalizeId((lookup as { id?: string })?.id ?? String(lookup)));
+        return getIds(value).join() === getIds(expected).join();
+    }
+    return value === expected;
+}
+function normalizeId(id: string): string {
+    return id.replace(/[{}]/g, "").toLowerCase();
+}
+/**
+ * Binds the validator to the OnChange event of its attributes and to the OnSave event.
+ *
+ * @remarks
+ * The OnSave event is not registered as async: a synchronous validator cancels the save itself, only a validator returning
+ * a Promise makes the dispatcher cancel the save and save again once it passed.
+ */
+function upsertValidator(validation: ValidationDetails): MethodDecorator {
+    return (target, propertyKey) => {
+        if (validation.attributeNames.length > 0) {
+            upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnChange, componentNames: validation.attributeNames });
+        }
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnSave });
+        upsertFunctionValidation(target.constructor, propertyKey.toString(), validation);
+    };
+}
+/**
+ * Binds the rule predicate to the load events and to the OnChange event of its dependencies.
+ */
+function upsertRule(rule: RuleDetails): MethodDecorator {
+    return (target, propertyKey) => {
+        // OnDataLoad evaluates the rule again after formContext.data.refresh.
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnLoad });
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnDataLoad });
+        if (rule.dependencies.length > 0) {
+            upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnChange, componentNames: rule.dependencies });
+        }
+        upsertFunctionRule(target.constructor, propertyKey.toString(), rule);
+    };
+}
+function upsertCommand(type: CommandTypes, name: string): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionCommand(target.constructor, { name, type, functionName: propertyKey.toString() });
+    };
+}
+
+const decorators = {
 
     Filter: {
         /**
@@ -47,15 +142,267 @@ export const D365Event = {
                 upsertFunctionEvent(target.constructor, propertyKey.toString(), undefined, [formType, ...otherFormTypes]);
             };
         },
+        /**
+         * Runs the decorated handler only when the predicate returns true.
+         * @remarks The predicate runs on every invocation of the handler, so keep it cheap.
+         * @param predicate - Receives the form context and the execution context of the event (undefined for the Loaded event).
+         */
+        When(predicate: (formContext: Xrm.FormContext, executionContext: Xrm.Events.EventContext | undefined) => boolean): MethodDecorator {
+            return upsertFilter({ name: "When", runtime: true, predicate });
+        },
+        /**
+         * Runs the decorated handler only when the attribute value strictly equals the given value.
+         * @remarks The attribute value is read on each invocation.
+         * @param attributeName - The name of the attribute to read.
+         * @param value - The expected value.
+         */
+        AttributeEquals(attributeName: string, value: unknown): MethodDecorator {
+            return upsertFilter({
+                name: `AttributeEquals(${attributeName})`,
+                runtime: true,
+                predicate: (formContext) => readAttributeValue(formContext, attributeName) === value,
+            });
+        },
+        /**
+         * Runs the decorated handler only when the attribute has a value.
+         * @remarks The attribute value is read on each invocation.
+         * @param attributeName - The name of the attribute to read.
+         */
+        AttributeNotNull(attributeName: string): MethodDecorator {
+            return upsertFilter({
+                name: `AttributeNotNull(${attributeName})`,
+                runtime: true,
+                predicate: (formContext) => (readAttributeValue(formContext, attributeName) ?? null) !== null,
+            });
+        },
+        /**
+         * Attaches the decorated handler only when the current user has at least one of the given security roles.
+         * @remarks The roles are read once, when the handlers are attached.
+         * @param roleName - The name of the security role.
+         * @param otherRoleNames - Additional security role names.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-utility/getglobalcontext/usersettings External Link: userSettings (Client API reference)}
+         */
+        UserHasRole(roleName: string, ...otherRoleNames: string[]): MethodDecorator {
+            const roleNames = [roleName, ...otherRoleNames];
+            return upsertFilter({
+                name: `UserHasRole(${roleNames.join(", ")})`,
+                runtime: false,
+                predicate: () => Xrm.Utility.getGlobalContext().userSettings.roles.get().some(role => roleNames.includes(role.name ?? "")),
+            });
+        },
+        /**
+         * Attaches the decorated handler only for the given client types.
+         * @remarks The client type is read once, when the handlers are attached.
+         * @param client - The client type.
+         * @param otherClients - Additional client types.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/xrm-utility/getglobalcontext/client/getclient External Link: getClient (Client API reference)}
+         */
+        ClientType(client: Xrm.Client, ...otherClients: Xrm.Client[]): MethodDecorator {
+            const clients = [client, ...otherClients];
+            return upsertFilter({
+                name: `ClientType(${clients.join(", ")})`,
+                runtime: false,
+                predicate: () => clients.includes(Xrm.Utility.getGlobalContext().client.getClient()),
+            });
+        },
+    },
+
+    Modifier: {
+        /**
+         * Delays the decorated handler until the event stopped firing for the given time.
+         * @remarks Each component (attribute, control, tab...) triggering the handler has its own timer. The handler result is not returned to the platform.
+         * @param wait - The delay in milliseconds.
+         */
+        Debounce(wait: number): MethodDecorator {
+            return upsertModifier({ type: ModifierTypes.Debounce, wait });
+        },
+        /**
+         * Ignores the calls of the decorated handler occurring less than the given time after the last executed call.
+         * @remarks Each component (attribute, control, tab...) triggering the handler is throttled independently.
+         * @param wait - The minimal time between two calls in milliseconds.
+         */
+        Throttle(wait: number): MethodDecorator {
+            return upsertModifier({ type: ModifierTypes.Throttle, wait });
+        },
+        /**
+         * Runs the decorated handler only once for the handler instance.
+         * @remarks Each component (attribute, control, tab...) triggering the handler runs it once.
+         */
+        Once(): MethodDecorator {
+            return upsertModifier({ type: ModifierTypes.Once });
+        },
+        /**
+         * Runs the decorated handler only once per record displayed in the form.
+         * @remarks Each component (attribute, control, tab...) triggering the handler runs it once per record.
+         */
+        OncePerRecord(): MethodDecorator {
+            return upsertModifier({ type: ModifierTypes.OncePerRecord });
+        },
+    },
+
+    Order: {
+        /**
+         * Sets the priority of the decorated handler among the handlers of the same event.
+         * @remarks Handlers with a higher priority are attached, and therefore run, first. The default priority is 0.
+         * @param priority - The priority of the handler.
+         */
+        Priority(priority: number): MethodDecorator {
+            return (target, propertyKey) => {
+                upsertFunctionOrder(target.constructor, propertyKey.toString(), priority);
+            };
+        },
+        /**
+         * Runs the decorated handler after the given handlers of the same event.
+         * @remarks Takes precedence over `Priority`. Cycles are reported as warnings.
+         * @param functionName - The name of the method that must run before.
+         * @param otherFunctionNames - Additional method names that must run before.
+         */
+        After(functionName: string, ...otherFunctionNames: string[]): MethodDecorator {
+            return (target, propertyKey) => {
+                upsertFunctionOrder(target.constructor, propertyKey.toString(), undefined, [functionName, ...otherFunctionNames]);
+            };
+        },
+    },
+
+    Inheritance: {
+        /**
+         * Removes handlers inherited from a base class from the decorated class and its subclasses.
+         * @remarks Methods redeclared with their own decorators in the decorated class are not affected.
+         * @param functionName - The name of the inherited method to exclude.
+         * @param otherFunctionNames - Additional inherited method names to exclude.
+         */
+        Exclude(functionName: string, ...otherFunctionNames: string[]): ClassDecorator {
+            return (target) => {
+                excludeInheritedFunctionEvents(target, [functionName, ...otherFunctionNames]);
+            };
+        },
+    },
+
+    Inject: {
+        /**
+         * Passes the raw execution context to the decorated parameter, undefined for the Loaded event.
+         * @remarks Parameters without `Inject` decorators keep receiving the arguments passed by the platform.
+         */
+        ExecutionContext(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.ExecutionContext);
+        },
+        /**
+         * Passes the wrapped `FormContext` to the decorated parameter, the row context for editable grid events.
+         */
+        FormContext(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.FormContext);
+        },
+        /**
+         * Passes the attribute, control or tab triggering the event to the decorated parameter.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/executioncontext/geteventsource External Link: getEventSource (Client API reference)}
+         */
+        EventSource(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.EventSource);
+        },
+        /**
+         * Passes the value of the attribute triggering the event to the decorated parameter.
+         * @remarks For control events (PreSearch, OnLookupTagClick...), the value of the attribute bound to the control.
+         */
+        Value(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.Value);
+        },
+        /**
+         * Passes the name of the attribute, control or tab triggering the event to the decorated parameter.
+         */
+        ComponentName(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.ComponentName);
+        },
+        /**
+         * Passes the save mode of the OnSave event to the decorated parameter.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments/getsavemode External Link: getSaveMode (Client API reference)}
+         */
+        SaveMode(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.SaveMode);
+        },
+        /**
+         * Passes the event arguments to the decorated parameter.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/executioncontext/geteventargs External Link: getEventArgs (Client API reference)}
+         */
+        EventArgs(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.EventArgs);
+        },
+        /**
+         * Passes the previous and current values of the attribute triggering the OnChange event to the decorated parameter.
+         * @remarks Undefined for the other events.
+         * @see {@link ValueChange}
+         */
+        ValueChange(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.ValueChange);
+        },
+        /**
+         * Passes the attributes modified since the form was loaded, its data reloaded or saved to the decorated parameter.
+         * @remarks Each item holds the attribute name with its original and current values, see `DirtyAttribute`.
+         */
+        DirtyAttributes(): ParameterDecorator {
+            return upsertParameter(ParameterTypes.DirtyAttributes);
+        },
+    },
+
+    Select: {
+        /**
+         * Selects every control bound to the attribute: body, header (`header_`), business process flow (`header_process_`)
+         * and duplicated (`name1`, `name2`...) controls.
+         * @remarks For attribute events, selects the attribute itself.
+         * @param attributeName - The name of the attribute.
+         */
+        ControlsOf(attributeName: string): ComponentSelector {
+            return { type: SelectorTypes.AttributeControls, attributeName };
+        },
+        /**
+         * Selects every attribute, tab or control, depending on the event, whose name matches the regular expression.
+         * @param pattern - The regular expression tested against the component names.
+         */
+        Matching(pattern: RegExp): ComponentSelector {
+            return { type: SelectorTypes.Pattern, pattern };
+        },
+        /**
+         * Selects every control displayed in the tab, or the attributes bound to them for attribute events.
+         * @param tabName - The name of the tab.
+         */
+        InTab(tabName: string): ComponentSelector {
+            return { type: SelectorTypes.Tab, tabName };
+        },
+        /**
+         * Selects every control displayed in the section, or the attributes bound to them for attribute events.
+         * @param tabName - The name of the tab containing the section.
+         * @param sectionName - The name of the section.
+         */
+        InSection(tabName: string, sectionName: string): ComponentSelector {
+            return { type: SelectorTypes.Section, tabName, sectionName };
+        },
+        /**
+         * Selects every control of the given types, or the attributes bound to them for attribute events.
+         * @param controlType - The control type, as returned by `control.getControlType()`.
+         * @param otherControlTypes - Additional control types.
+         */
+        OfControlType(controlType: Xrm.Controls.ControlType, ...otherControlTypes: Xrm.Controls.ControlType[]): ComponentSelector {
+            return { type: SelectorTypes.ControlType, controlTypes: [controlType, ...otherControlTypes] };
+        },
+        /**
+         * Selects every attribute of the given types, or the controls bound to them for control events.
+         * @param attributeType - The attribute type, as returned by `attribute.getAttributeType()`.
+         * @param otherAttributeTypes - Additional attribute types.
+         */
+        OfAttributeType(attributeType: Xrm.Attributes.AttributeType, ...otherAttributeTypes: Xrm.Attributes.AttributeType[]): ComponentSelector {
+            return { type: SelectorTypes.AttributeType, attributeTypes: [attributeType, ...otherAttributeTypes] };
+        },
     },
 
     Form: {
         /**
          * Adds a handler for the OnLoad form event.
+         * @remarks When `asyncOptions` is provided, the promise returned by the handler is returned to the platform,
+         * which waits for it if async OnLoad handlers are enabled in the app settings.
+         * @param asyncOptions - Waits for the promise returned by the handler, within the given timeout.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/form-onload External Link: Form OnLoad event (Client API reference)}
          */
-        OnLoad() {
-            return upsertSimpleEvent(FormEventTypes.OnLoad);
+        OnLoad(asyncOptions?: AsyncEventOptions) {
+            return upsertSimpleEvent(FormEventTypes.OnLoad, asyncOptions);
         },
         /**
          * Adds a handler for the OnDataLoad form event.
@@ -74,10 +421,47 @@ export const D365Event = {
         },
         /**
          * Adds a handler for the OnSave form event.
+         * @remarks When async options are provided, the save is cancelled while the promise returned by the handler is pending,
+         * then the record is saved again once every async OnSave handler resolved. The save stays cancelled if one of them fails or times out.
+         * @param options - Async options, or the save modes the handler is restricted to along with the async options.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/form-onsave External Link: Form OnSave event (Client API reference)}
          */
-        OnSave() {
-            return upsertSimpleEvent(FormEventTypes.OnSave);
+        OnSave(options?: AsyncEventOptions | SaveEventOptions): MethodDecorator {
+            if (!options || !isSaveEventOptions(options)) return upsertSimpleEvent(FormEventTypes.OnSave, options);
+            return upsertSaveEvent(options.async, options.saveModes);
+        },
+        /**
+         * Adds a handler for the OnSave form event, run only for automatic saves.
+         * @param asyncOptions - Waits for the promise returned by the handler, within the given timeout.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments/getsavemode External Link: getSaveMode (Client API reference)}
+         */
+        OnAutoSave(asyncOptions?: AsyncEventOptions): MethodDecorator {
+            return upsertSaveEvent(asyncOptions, [XrmEnum.SaveMode.AutoSave]);
+        },
+        /**
+         * Adds a handler for the OnSave form event, run only when the user saves and closes the form.
+         * @param asyncOptions - Waits for the promise returned by the handler, within the given timeout.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/save-event-arguments/getsavemode External Link: getSaveMode (Client API reference)}
+         */
+        OnSaveAndClose(asyncOptions?: AsyncEventOptions): MethodDecorator {
+            return upsertSaveEvent(asyncOptions, [XrmEnum.SaveMode.SaveAndClose]);
+        },
+        /**
+         * Adds a handler for the OnSave form event, run only when one of the given attributes has been modified.
+         * @remarks Without attribute names, the handler runs when any attribute has been modified.
+         * @param attributeNames - The names of the attributes to check.
+         */
+        OnSaveWhenDirty(...attributeNames: string[]): MethodDecorator {
+            return (target, propertyKey) => {
+                upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnSave });
+                upsertFunctionFilter(target.constructor, propertyKey.toString(), {
+                    name: `WhenDirty(${attributeNames.join(", ")})`,
+                    runtime: true,
+                    predicate: (formContext, executionContext) => !isSaveEvent(executionContext) || (attributeNames.length === 0
+                        ? formContext.data.entity.getIsDirty()
+                        : attributeNames.some(attributeName => formContext.getAttribute(attributeName)?.getIsDirty())),
+                });
+            };
         },
         /**
          * Adds a handler for the OnPostSave form event.
@@ -92,31 +476,31 @@ export const D365Event = {
         /**
          * Adds a handler for the TabStateChange tab event.
          * @remarks This event occurs when a tab is expanded or collapsed.
-         * @param tabControlName - The name of the tab control to bind the handler to.
+         * @param tabControlName - The name of the tab control to bind the handler to, or a selector.
          * @param othertabControlNames - Additional tab control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/tabstatechange External Link: TabStateChange event (Client API reference)}
          */
-        OnStateChange(tabControlName: string, ...othertabControlNames: string[]) {
+        OnStateChange(tabControlName: ComponentTarget, ...othertabControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnTabStateChange, [tabControlName, ...othertabControlNames]);
         },
         /**
          * Adds a handler for the TabStateChange tab event.
          * @remarks The handler is triggered only when the tab is expanding.
-         * @param tabControlName - The name of the tab control to bind the handler to.
+         * @param tabControlName - The name of the tab control to bind the handler to, or a selector.
          * @param othertabControlNames - Additional tab control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/tabstatechange External Link: TabStateChange event (Client API reference)}
          */
-        OnExpand(tabControlName: string, ...othertabControlNames: string[]) {
+        OnExpand(tabControlName: ComponentTarget, ...othertabControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnTabExpand, [tabControlName, ...othertabControlNames]);
         },
         /**
          * Adds a handler for the TabStateChange tab event.
          * @remarks The handler is triggered only when the tab is collapsing.
-         * @param tabControlName - The name of the tab control to bind the handler to.
+         * @param tabControlName - The name of the tab control to bind the handler to, or a selector.
          * @param othertabControlNames - Additional tab control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/tabstatechange External Link: TabStateChange event (Client API reference)}
          */
-        OnCollapse(tabControlName: string, ...othertabControlNames: string[]) {
+        OnCollapse(tabControlName: ComponentTarget, ...othertabControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnTabCollapse, [tabControlName, ...othertabControlNames]);
         },
     },
@@ -124,32 +508,55 @@ export const D365Event = {
     Column: {
         /**
          * Adds a handler for the OnChange column event.
-         * @param attributeName - The name of the attribute to bind the handler to.
+         * @param attributeName - The name of the attribute to bind the handler to, or a selector such as `Select.Matching(/^address1_/)`.
          * @param otherAttributeNames - Additional attribute names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/attribute-onchange External Link: Column OnChange event (Client API reference)}
          */
-        OnChange(attributeName: string, ...otherAttributeNames: string[]) {
+        OnChange(attributeName: ComponentTarget, ...otherAttributeNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnChange, [attributeName, ...otherAttributeNames]);
         },
+        /**
+         * Adds a handler for the OnChange column event, run only when the value changes from the given value.
+         * @remarks The previous value is the one known by the dispatcher, see {@link ValueChange}. Dates are compared by time
+         * and lookups by record id.
+         * @param attributeName - The name of the attribute to bind the handler to.
+         * @param from - The previous value, `null` for an empty attribute.
+         * @param to - The new value, any value different from `from` when omitted.
+         */
+        OnValueChangedFrom(attributeName: string, from: unknown, ...to: [unknown?]): MethodDecorator {
+            return upsertTransitionEvent(`ValueChangedFrom(${attributeName})`, [attributeName], (valueChange) =>
+                isSameValue(valueChange.previous, from) && (to.length === 0 ? !isSameValue(valueChange.current, from) : isSameValue(valueChange.current, to[0]))
+            );
+        },
+        /**
+         * Adds a handler for the OnChange column event, run only when the attribute had a value and is now empty.
+         * @param attributeName - The name of the attribute to bind the handler to.
+         * @param otherAttributeNames - Additional attribute names to bind the handler to.
+         */
+        OnCleared(attributeName: string, ...otherAttributeNames: string[]): MethodDecorator {
+            return upsertTransitionEvent(`Cleared(${[attributeName, ...otherAttributeNames].join(", ")})`, [attributeName, ...otherAttributeNames], (valueChange) =>
+                !isEmptyValue(valueChange.previous) && isEmptyValue(valueChange.current)
+            );
+        },
     },
 
     Lookup: {
         /**
          * Adds a handler for the OnTagClick lookup event.
-         * @param lookupControlName - The name of the lookup to bind the handler to.
+         * @param lookupControlName - The name of the lookup to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherLookupControlNames - Additional lookup names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/onlookuptagclick External Link: OnLookupTagClick event (Client API reference)}
          */
-        OnTagClick(lookupControlName: string, ...otherLookupControlNames: string[]) {
+        OnTagClick(lookupControlName: ComponentTarget, ...otherLookupControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnLookupTagClick, [lookupControlName, ...otherLookupControlNames]);
         },
         /**
          * Adds a handler for the OnPreSearch lookup event.
-         * @param lookupControlName - The name of the lookup to bind the handler to.
+         * @param lookupControlName - The name of the lookup to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherLookupControlNames - Additional lookup names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/presearch External Link: Lookup OnPreSearch event (Client API reference)}
          */
-        OnPreSearch(lookupControlName: string, ...otherLookupControlNames: string[]) {
+        OnPreSearch(lookupControlName: ComponentTarget, ...otherLookupControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.PreSearch, [lookupControlName, ...otherLookupControlNames]);
         },
     },
@@ -157,20 +564,20 @@ export const D365Event = {
     SubGrid: {
         /**
          * Adds a handler for the OnLoad subgrid event.
-         * @param gridControlName - The name of the subgrid to bind the handler to.
+         * @param gridControlName - The name of the subgrid to bind the handler to, or a selector.
          * @param otherGridControlNames - Additional subgrid names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/subgrid-onload External Link: SubGrid OnLoad event (Client API reference)}
          */
-        OnLoad(gridControlName: string, ...otherGridControlNames: string[]) {
+        OnLoad(gridControlName: ComponentTarget, ...otherGridControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.SubGridOnLoad, [gridControlName, ...otherGridControlNames]);
         },
         /**
          * Adds a handler for the OnRecordSelected subgrid event.
-         * @param gridControlName - The name of the subgrid to bind the handler to.
+         * @param gridControlName - The name of the subgrid to bind the handler to, or a selector.
          * @param otherGridControlNames - Additional subgrid names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/grid-onrecordselect External Link: Grid OnRecordSelected event (Client API reference)}
          */
-        OnRecordSelected(gridControlName: string, ...otherGridControlNames: string[]) {
+        OnRecordSelected(gridControlName: ComponentTarget, ...otherGridControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.SubGridOnRecordSelect, [gridControlName, ...otherGridControlNames]);
         },
     },
@@ -179,12 +586,12 @@ export const D365Event = {
         /**
          * Adds a handler for the OnReadyStateComplete iframe event.
          * @remarks Use getContentWindow with this handler to access the window object of an IFrame control, enabling interaction with its content.
-         * @param webresourceControlName - The name of the webresource control to bind the handler to.
+         * @param webresourceControlName - The name of the webresource control to bind the handler to, or a selector.
          * @param otherWebresourceControlNames - Additional webresource control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/onreadystatecomplete External Link: IFrame OnReadyStateComplete event (Client API reference)}
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/getcontentwindow External Link: getContentWindow (Client API reference)}
          */
-        OnReadyStateComplete(webresourceControlName: string, ...otherWebresourceControlNames: string[]) {
+        OnReadyStateComplete(webresourceControlName: ComponentTarget, ...otherWebresourceControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnReadyStateComplete, [webresourceControlName, ...otherWebresourceControlNames]);
         },
     },
@@ -230,11 +637,11 @@ export const D365Event = {
     PCF: {
         /**
          * Adds a handler for the OnOutputChange PCF control event.
-         * @param pcfControlName - The name of the pcf control to bind the handler to.
+         * @param pcfControlName - The name of the pcf control to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherPcfControlNames - Additional pcf control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/onoutputchange External Link: OnOutputChange event (Client API reference)}
          */
-        OnOutputChange(pcfControlName: string, ...otherPcfControlNames: string[]) {
+        OnOutputChange(pcfControlName: ComponentTarget, ...otherPcfControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnOutputChange, [pcfControlName, ...otherPcfControlNames]);
         },
     },
@@ -242,32 +649,300 @@ export const D365Event = {
     KnowledgeBaseSearch: {
         /**
          * Adds a handler for the OnResultOpened knowledge base search event.
-         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to.
+         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherKbSearchControlNameControlNames - Additional knowledge base search control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/onresultopened External Link: OnResultOpened event (Client API reference)}
          */
-        OnResultOpened(kbSearchControlName: string, ...otherKbSearchControlNameControlNames: string[]) {
+        OnResultOpened(kbSearchControlName: ComponentTarget, ...otherKbSearchControlNameControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnResultOpened, [kbSearchControlName, ...otherKbSearchControlNameControlNames]);
         },
         /**
          * Adds a handler for the OnSelection knowledge base search event.
-         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to.
+         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherKbSearchControlNameControlNames - Additional knowledge base search control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/onselection External Link: OnSelection event (Client API reference)}
          */
-        OnSelection(kbSearchControlName: string, ...otherKbSearchControlNameControlNames: string[]) {
+        OnSelection(kbSearchControlName: ComponentTarget, ...otherKbSearchControlNameControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.OnSelection, [kbSearchControlName, ...otherKbSearchControlNameControlNames]);
         },
         /**
          * Adds a handler for the PostSearch knowledge base search event.
-         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to.
+         * @param kbSearchControlName - The name of the knowledge base search control to bind the handler to, or a selector such as `Select.ControlsOf(attributeName)`.
          * @param otherKbSearchControlNameControlNames - Additional knowledge base search control names to bind the handler to.
          * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/postsearch External Link: PostSearch event (Client API reference)}
          */
-        PostSearch(kbSearchControlName: string, ...otherKbSearchControlNameControlNames: string[]) {
+        PostSearch(kbSearchControlName: ComponentTarget, ...otherKbSearchControlNameControlNames: ComponentTarget[]) {
             return upsertComponentEvent(FormEventTypes.PostSearch, [kbSearchControlName, ...otherKbSearchControlNameControlNames]);
         },
     },
+
+    EditableGrid: {
+        /**
+         * Adds a handler for the OnRecordSelect editable grid event.
+         * @remarks Only dispatched by an `EditableGridHandlerBase` subclass, whose `onRecordSelect` entry point is registered on the grid.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/grid-onrecordselect External Link: Grid OnRecordSelect event (Client API reference)}
+         */
+        OnRowSelect() {
+            return upsertSimpleEvent(FormEventTypes.EditableGridOnRecordSelect);
+        },
+        /**
+         * Adds a handler for the OnChange editable grid event.
+         * @remarks Only dispatched by an `EditableGridHandlerBase` subclass, whose `onChange` entry point is registered on the grid columns.
+         * @param columnName - The name of the grid column to bind the handler to.
+         * @param otherColumnNames - Additional grid column names to bind the handler to.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/grid-onchange External Link: Grid OnChange event (Client API reference)}
+         */
+        OnCellChange(columnName: string, ...otherColumnNames: string[]) {
+            return upsertComponentEvent(FormEventTypes.EditableGridOnChange, [columnName, ...otherColumnNames]);
+        },
+        /**
+         * Adds a handler for the OnSave editable grid event.
+         * @remarks Only dispatched by an `EditableGridHandlerBase` subclass, whose `onSave` entry point is registered on the grid.
+         * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/events/grid-onsave External Link: Grid OnSave event (Client API reference)}
+         */
+        OnRowSave() {
+            return upsertSimpleEvent(FormEventTypes.EditableGridOnSave);
+        },
+    },
+}
+
+
+type ComponentDecorators<TGroup, TName extends string> = {
+    [K in keyof TGroup]: TGroup[K] extends (componentName: ComponentTarget, ...otherComponentNames: ComponentTarget[]) => infer R
+        ? (componentName: TName | ComponentSelector, ...otherComponentNames: (TName | ComponentSelector)[]) => R
+        : TGroup[K] extends (componentName: string, ...otherComponentNames: string[]) => infer R
+        ? (componentName: TName, ...otherComponentNames: TName[]) => R
+        : TGroup[K];
+}
+
+/**
+ * Decorators of `D365Event` restricted to the component names of a form.
+ * @see {@link FormComponentNames}
+ */
+export type TypedD365Event<TForm extends FormComponentNames> = Omit<typeof decorators, "Select" | "Tab" | "Column" | "Lookup" | "SubGrid" | "IFrame" | "PCF" | "KnowledgeBaseSearch"> & {
+    Select: Omit<typeof decorators.Select, "ControlsOf" | "InTab" | "InSection"> & {
+        ControlsOf(attributeName: TForm["attributes"]): ComponentSelector;
+        InTab(tabName: TForm["tabs"]): ComponentSelector;
+        InSection(tabName: TForm["tabs"], sectionName: string): ComponentSelector;
+    };
+    Tab: ComponentDecorators<typeof decorators.Tab, TForm["tabs"]>;
+    Column: ComponentDecorators<Omit<typeof decorators.Column, "OnValueChangedFrom">, TForm["attributes"]> & {
+        OnValueChangedFrom(attributeName: TForm["attributes"], from: unknown, ...to: [unknown?]): MethodDecorator;
+    };
+    Lookup: ComponentDecorators<typeof decorators.Lookup, TForm["lookups"]>;
+    SubGrid: ComponentDecorators<typeof decorators.SubGrid, TForm["subgrids"]>;
+    IFrame: ComponentDecorators<typeof decorators.IFrame, TForm["iframes"]>;
+    PCF: ComponentDecorators<typeof decorators.PCF, TForm["controls"]>;
+    KnowledgeBaseSearch: ComponentDecorators<typeof decorators.KnowledgeBaseSearch, TForm["controls"]>;
+}
+
+/**
+ * Collection of decorators to bind Dynamics 365 event handlers to class methods.
+ * 
+ * This utility exposes method decorators for all main Dynamics 365 form, tab, attribute,
+ * lookup, subgrid, iframe, process, PCF, and knowledge base search events, 
+ * allowing binding event handlers.
+ * 
+ * Usage example:
+ * ```ts
+ * class MyFormHandlers {
+ *   ⁤@D365Event.Form.OnLoad()
+ *   onLoadHandler(executionContext: Xrm.ExecutionContext<Xrm.PageBase>) {
+ *     // handler code
+ *   }
+ *   
+ *   ⁤@D365Event.Column.OnChange("firstname")
+ *   onFirstNameChange(executionContext: Xrm.ExecutionContext<Xrm.PageBase>) {
+ *     // handler code
+ *   }
+ * }
+ * ```
+ */
+export const D365Event = {
+    ...decorators,
+
+    /**
+     * Returns the decorators typed against the component names of a form, a misspelled name becoming a compilation error.
+     * @remarks The decorators are the same at runtime, only their parameter types are narrowed.
+     * @example
+     * ```ts
+     * const AccountEvent = D365Event.for<AccountMainForm>();
+     *
+     * class AccountFormHandler extends FormEventHandlerBase {
+     *   ⁤@AccountEvent.Column.OnChange("telephone1")
+     *   onPhoneChange(executionContext: Xrm.Events.EventContext) { }
+     * }
+     * ```
+     */
+    for<TForm extends FormComponentNames>(): TypedD365Event<TForm> {
+        return decorators;
+    },
+}
+
+/**
+ * Collection of decorators exposing class methods as command bar (ribbon) functions.
+ *
+ * The decorated methods receive a `CommandContext` and are exposed under a global namespace by `registerCommands`,
+ * so that command definitions (Ribbon Workbench, command designer) can reference them by name.
+ *
+ * Usage example:
+ * ```ts
+ * class AccountCommands {
+ *   ⁤@D365Command.EnableRule("isApproveEnabled")
+ *   async isApproveEnabled(context: CommandContext) {
+ *     return context.formContext?.getAttribute("statuscode")?.getValue() === 1;
+ *   }
+ * }
+ * registerCommands("Contoso.Account.Commands", AccountCommands);
+ * ```
+ */
+export const D365Command = {
+    /**
+     * Exposes the decorated method as a custom enable rule.
+     * @remarks The method returns a boolean or a Promise of a boolean. A thrown error or a rejected promise disables the command.
+     * @param name - The name of the function in the global namespace.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/define-ribbon-enable-rules External Link: Define ribbon enable rules}
+     */
+    EnableRule(name: string): MethodDecorator {
+        return upsertCommand(CommandTypes.EnableRule, name);
+    },
+    /**
+     * Exposes the decorated method as a display rule function.
+     * @remarks Evaluated like an enable rule. Classic ribbon display rules cannot call JavaScript: reference it from an enable rule or a modern command.
+     * @param name - The name of the function in the global namespace.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/define-ribbon-display-rules External Link: Define ribbon display rules}
+     */
+    DisplayRule(name: string): MethodDecorator {
+        return upsertCommand(CommandTypes.DisplayRule, name);
+    },
+    /**
+     * Exposes the decorated method as a command action.
+     * @remarks Errors are logged then thrown again, Dynamics displays its script error dialog.
+     * @param name - The name of the function in the global namespace.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/define-ribbon-actions External Link: Define ribbon actions}
+     */
+    Action(name: string): MethodDecorator {
+        return upsertCommand(CommandTypes.Action, name);
+    },
+}
+
+/**
+ * Collection of decorators declaring validators on the methods of a form handler.
+ *
+ * A validator returns the error message, or `null` when the values are valid, synchronously or as a Promise.
+ * The dispatcher displays the message on the controls of the validated attributes, cancels the save while a validator fails
+ * and summarizes the errors in a form notification.
+ *
+ * Usage example:
+ * ```ts
+ * class AccountFormHandler extends FormEventHandlerBase {
+ *   ⁤@D365Validate.Column("creditlimit")
+ *   validateCreditLimit(executionContext: Xrm.Events.EventContext) {
+ *     const creditLimit = executionContext.getFormContext().getAttribute("creditlimit")?.getValue();
+ *     return creditLimit !== null && creditLimit < 0 ? "The credit limit cannot be negative." : null;
+ *   }
+ * }
+ * ```
+ */
+export const D365Validate = {
+    /**
+     * Declares a validator run on the OnChange event of the attributes and on save.
+     * @remarks The message is displayed on every control of the attributes: header, business process flow and duplicated controls included.
+     * The validator reads the values from the form, on save the event source is the record and not an attribute.
+     * @param attributeName - The name of the attribute validated.
+     * @param otherAttributeNames - Additional attributes displaying the message, for rules involving several attributes.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/setnotification External Link: setNotification (Client API reference)}
+     */
+    Column(attributeName: string, ...otherAttributeNames: string[]): MethodDecorator {
+        return upsertValidator({ type: ValidationTypes.Column, attributeNames: [attributeName, ...otherAttributeNames] });
+    },
+    /**
+     * Declares a validator run on save, for rules not tied to an attribute.
+     * @remarks The message is only displayed in the form notification summary.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/formcontext-ui/setformnotification External Link: setFormNotification (Client API reference)}
+     */
+    Form(): MethodDecorator {
+        return upsertValidator({ type: ValidationTypes.Form, attributeNames: [] });
+    },
+}
+
+/**
+ * Collection of decorators computing the state of form components from predicate methods.
+ *
+ * The predicate returns a boolean, or a Promise of a boolean. The dispatcher evaluates it on load and whenever one of its
+ * dependencies changes, then applies the result to the target. Several rules can share the same predicate.
+ *
+ * Usage example:
+ * ```ts
+ * class AccountFormHandler extends FormEventHandlerBase {
+ *   ⁤@D365Rule.Visible("section_company", ["customertypecode"])
+ *   ⁤@D365Rule.Required("cr123_siret", ["customertypecode"])
+ *   isCompany(executionContext: Xrm.Events.EventContext) {
+ *     return executionContext.getFormContext().getAttribute("customertypecode")?.getValue() === 1;
+ *   }
+ * }
+ * ```
+ */
+export const D365Rule = {
+    /**
+     * Shows the target when the predicate returns true, hides it otherwise.
+     * @remarks The target is an attribute, whose every control is affected, a control, a tab or a section.
+     * @param targetName - The name of the attribute, control, tab or section.
+     * @param dependencies - The attributes whose OnChange event evaluates the rule again.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/setvisible External Link: setVisible (Client API reference)}
+     */
+    Visible(targetName: string, dependencies: string[] = []): MethodDecorator {
+        return upsertRule({ type: RuleTypes.Visible, targetName, dependencies });
+    },
+    /**
+     * Makes the attribute required when the predicate returns true, and restores the requirement level set in the form designer otherwise.
+     * @param attributeName - The name of the attribute.
+     * @param dependencies - The attributes whose OnChange event evaluates the rule again.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/setrequiredlevel External Link: setRequiredLevel (Client API reference)}
+     */
+    Required(attributeName: string, dependencies: string[] = []): MethodDecorator {
+        return upsertRule({ type: RuleTypes.Required, targetName: attributeName, dependencies });
+    },
+    /**
+     * Disables the target when the predicate returns true, enables it otherwise.
+     * @remarks The target is an attribute, whose every control is affected, or a control.
+     * @param targetName - The name of the attribute or control.
+     * @param dependencies - The attributes whose OnChange event evaluates the rule again.
+     * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/controls/setdisabled External Link: setDisabled (Client API reference)}
+     */
+    Disabled(targetName: string, dependencies: string[] = []): MethodDecorator {
+        return upsertRule({ type: RuleTypes.Disabled, targetName, dependencies });
+    },
+}
+
+/**
+ * Keeps an attribute in sync with the value returned by the decorated method, computed again when one of its dependencies changes.
+ *
+ * @remarks
+ * The method returns the new value, or a Promise of it, `undefined` leaving the attribute unchanged. The value is written
+ * with `setValue` only when it differs from the current one. Without `Filter.FormTypes`, the value is not computed on read-only
+ * and disabled forms. Computed attributes firing their OnChange event in a circle are reported when the handlers are attached.
+ *
+ * @example
+ * ```ts
+ * class OrderLineFormHandler extends FormEventHandlerBase {
+ *   ⁤@D365Compute("totalamount", ["quantity", "priceperunit"])
+ *   computeTotal(executionContext: Xrm.Events.EventContext) {
+ *     const formContext = executionContext.getFormContext();
+ *     return (formContext.getAttribute("quantity")?.getValue() ?? 0) * (formContext.getAttribute("priceperunit")?.getValue() ?? 0);
+ *   }
+ * }
+ * ```
+ *
+ * @param attributeName - The name of the computed attribute.
+ * @param dependencies - The attributes whose OnChange event computes the value again.
+ * @see {@link https://learn.microsoft.com/en-us/power-apps/developer/model-driven-apps/clientapi/reference/attributes/setvalue External Link: setValue (Client API reference)}
+ */
+export function D365Compute(attributeName: string, dependencies: string[], options: ComputeOptions = {}): MethodDecorator {
+    return (target, propertyKey) => {
+        upsertFunctionEvent(target.constructor, propertyKey.toString(), { type: FormEventTypes.OnChange, componentNames: dependencies });
+        upsertFunctionCompute(target.constructor, propertyKey.toString(), { attributeName, dependencies, fireOnChange: options.fireOnChange ?? false });
+    };
 }
 
 export default D365Event;
@@ -1,8 +1,11 @@
 
 import { warnMessage } from "../utils/logger";
-import FormEventHandlerBase from "./HandlerBase";
+import { DecoratorProfiler } from "./DecoratorProfiler";
+import { EventTracer } from "./EventTracer";
+import FormEventHandlerError from "./Errors";
 import { getFormEvents } from "./Registry";
-import { ComponentEventType, EventDetail, FormEventDetails, FormEventTypes, FormTypeLabel, isMatchingComponentEvent } from "./Types";
+import { type ComponentScope, getComponentScope, resolveSelector } from "./Selectors";
+import { AsyncEventOptions, ComponentEventType, ComponentTarget, ComputeDetails, DirtyAttribute, EditableGridEventType, EventDetail, formatComponentTarget, FormEventDetails, FormEventRegistration, FormEventTypes, FormTypeLabel, HandlerModifier, HandlerParameter, isAsyncEventDetail, isComponentSelector, isMatchingComponentEvent, ModifierTypes, ParameterTypes, RuleDetails, RuleTypes, ValidationTypes, ValueChange } from "./Types";
 import { FormContext, isAttribute, isGridControl, isIframeControl, isKbSearchControl, isLookupControl, isStandardControl, isTabControl } from "@sguez/d365-form-helpers";
 import ContextProvider from '@sguez/d365-form-helpers/Provider';
 
@@ -25,15 +28,89 @@ export function flushGroupedWarnings() {
 }
 
 
+/**
+ * Instance whose decorated methods are dispatched: a form handler or an editable grid handler.
+ */
+export type EventHandlerInstance = {
+    onHandlerError(error: FormEventHandlerError): void;
+    /** Called when a handler runs successfully after having failed, to clear what `onHandlerError` displayed. */
+    onHandlerRecovered?(functionName: string, executionContext: Xrm.Events.EventContext | undefined): void;
+}
+
+type FormEventAttachment = {
+    active: boolean;
+    registrations: FormEventRegistration[];
+    /** Last known value of each attribute watched by OnChange handlers, with the value it replaced. */
+    values: Map<string, ValueChange>;
+    /** Value of every attribute when the form was loaded, its data reloaded or saved, kept only when a handler injects the dirty attributes. */
+    originalValues?: Map<string, unknown> | undefined;
+    /** Detach functions of the handlers attached by the dispatcher to track the attribute values. */
+    valueTrackers: (() => void)[];
+    /** Message of each failing `D365Validate` validator, by function name, as displayed in the form notification summary. */
+    validationErrors: Map<string, string>;
+    /** Set when a save is cancelled by a validator, until every validator passes. */
+    showsValidationSummary: boolean;
+    /** Requirement level set in the form designer of each attribute targeted by a `D365Rule.Required` rule. */
+    requiredLevels: Map<string, Xrm.Attributes.RequirementLevel>;
+    /** Function names of the `D365Compute` methods whose `fireOnChange` is ignored, as they would trigger each other in a circle. */
+    cyclicComputes: Set<string>;
+    /** Function names of the handlers whose last run failed. */
+    failedHandlers: Set<string>;
+}
+
+/**
+ * Save state shared by the instances attached to a form: the save triggered once their async OnSave handlers resolved serves them all.
+ */
+type FormSaveState = {
+    pendingSave?: PendingSave | undefined;
+    resaving: boolean;
+    /** Attachments whose OnSave handlers ran on the form, whose failing validators keep the save cancelled. */
+    attachments: Set<FormEventAttachment>;
+}
+
+type PendingSave = {
+    saveMode: XrmEnum.SaveMode;
+    results: Promise<boolean>[];
+    /** Attachments of the async OnSave handlers awaited, the form is not saved again when one of them is detached meanwhile. */
+    attachments: Set<FormEventAttachment>;
+}
+
+const DEFAULT_ASYNC_TIMEOUT = 10000;
+/** Form types on which `D365Compute` methods are not attached unless `Filter.FormTypes` includes them. */
+const READ_ONLY_FORM_TYPES = [XrmEnum.FormType.ReadOnly, XrmEnum.FormType.Disabled];
+
+const attachments = new WeakMap<EventHandlerInstance, FormEventAttachment>();
+/** Keyed by the form context of the save events. */
+const formSaveStates = new WeakMap<object, FormSaveState>();
+/** Time of the last call of each component, by modifier of each handler of the instance, kept when the handlers are attached again. */
+const modifierStates = new WeakMap<EventHandlerInstance, Map<string, Map<string, number>>>();
+
+/**
+ * Loaded event of `formContext.ui`, not declared on `Xrm.Ui` by every `@types/xrm` version.
+ */
+type LoadedEventUi = {
+    addLoaded(handler: Xrm.Events.ContextSensitiveHandler): void;
+    removeLoaded(handler: Xrm.Events.ContextSensitiveHandler): void;
+}
+
+
 
 export class FormEventDispatcher {
 
-    static apply(instance: FormEventHandlerBase, executionContext: Xrm.Events.EventContext, formType: XrmEnum.FormType): void {
+    static apply(instance: EventHandlerInstance, executionContext: Xrm.Events.EventContext, formType: XrmEnum.FormType): void {
+        this.detach(instance);
+        attachments.set(instance, this.createAttachment());
+
         const formEvents = getFormEvents(instance.constructor);
         this.validateHandlers(instance, formEvents);
+        this.validateRuleTargets(instance, formEvents, executionContext.getFormContext(), formType);
+        this.validateComputes(instance, formEvents, executionContext.getFormContext(), formType);
 
         const formContext = ContextProvider.from(executionContext);
 
+        // Attached first, so that the handlers of the instance read the values refreshed for the current event.
+        this.applyValueTracking(instance, formEvents, executionContext.getFormContext());
+
         this.applyOnDataLoadEvents(instance, formEvents, formContext, formType);
         this.applyOnLoadEvents(instance, formEvents, formContext, formType);
         this.applyLoadedEvents(instance, formEvents, formContext, formType);
@@ -70,42 +147,652 @@ export class FormEventDispatcher {
         flushGroupedWarnings();
     }
 
+    /**
+     * Removes every handler attached to the form by the given instance.
+     *
+     * @remarks
+     * Events without a `remove*` Client API (IFrame OnReadyStateComplete, SubGrid OnRecordSelect) stay registered
+     * on the form but their handlers are disabled and will no longer call the instance.
+     */
+    static detach(instance: EventHandlerInstance): void {
+        const attachment = attachments.get(instance);
+        if (!attachment) return;
+
+        attachment.active = false;
+        for (const registration of attachment.registrations) {
+            registration.detach();
+        }
+        for (const detachValueTracker of attachment.valueTrackers) {
+            detachValueTracker();
+        }
+        attachments.delete(instance);
+    }
+
+    /**
+     * Returns whether the handlers of the given instance are attached and not detached since.
+     */
+    static isAttached(instance: EventHandlerInstance): boolean {
+        return attachments.get(instance)?.active === true;
+    }
+
+    /**
+     * Returns the registrations currently attached to the form by the given instance.
+     */
+    static getRegistrations(instance: EventHandlerInstance): readonly FormEventRegistration[] {
+        return attachments.get(instance)?.registrations ?? [];
+    }
+
+    /**
+     * Binds the editable grid handlers of the given instance, then called by {@link FormEventDispatcher.dispatchGridEvent}.
+     *
+     * @remarks
+     * Editable grid events are registered on the grid in the form designer, there is no Client API to attach them.
+     * Grid rows have no form type, `Filter.FormTypes` is ignored for these events.
+     */
+    static applyGridEvents(instance: EventHandlerInstance, executionContext: Xrm.Events.EventContext): void {
+        this.detach(instance);
+        attachments.set(instance, this.createAttachment());
+
+        const formEvents = getFormEvents(instance.constructor);
+        this.validateHandlers(instance, formEvents);
+
+        // The grid row exposes the data API of a form context (data.entity), which is all the handler wrappers read.
+        const rowContext = executionContext.getFormContext() as unknown as FormContext;
+
+        for (const eventType of [FormEventTypes.EditableGridOnRecordSelect, FormEventTypes.EditableGridOnChange, FormEventTypes.EditableGridOnSave]) {
+            const gridEvents = this.sortHandlers(instance, formEvents.filter(h => h.events.some(e => e.type === eventType)), eventType);
+
+            for (const formEvent of gridEvents) {
+                if (formEvent.formTypes?.length)
+                    logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Form type filter of "${formEvent.functionName}" is ignored for editable grid event "${eventType}".`);
+                if (!this.areFiltersSatisfied(formEvent.filters, false, rowContext, undefined)) continue;
+                const fn = this.getHandlerFunction(instance, formEvent.functionName);
+                if (!fn) continue;
+
+                const functionBindToInstance = this.bindHandler(instance, formEvent, fn, eventType, rowContext);
+                const columnNames = formEvent.events
+                    .filter(eventDetail => isMatchingComponentEvent(eventDetail, FormEventTypes.EditableGridOnChange))
+                    .flatMap(eventDetail => eventDetail.componentNames);
+
+                for (const target of eventType === FormEventTypes.EditableGridOnChange ? columnNames : [null]) {
+                    this.recordRegistration(instance, formEvent.functionName, eventType, target, functionBindToInstance, undefined);
+                }
+            }
+        }
+
+        flushGroupedWarnings();
+    }
+
+    /**
+     * Calls, in order, the editable grid handlers of the given instance bound to the event.
+     *
+     * @remarks
+     * For the cell OnChange event, only the handlers of the changed column are called.
+     */
+    static dispatchGridEvent(instance: EventHandlerInstance, eventType: EditableGridEventType, executionContext: Xrm.Events.EventContext): void {
+        const columnName = eventType === FormEventTypes.EditableGridOnChange ? this.getEventSourceName(executionContext) : null;
+
+        for (const registration of [...this.getRegistrations(instance)]) {
+            if (registration.eventType === eventType && registration.target === columnName) {
+                registration.handler(executionContext);
+            }
+        }
+    }
+
 
 
     //#region Utils
-    private static isFormTypeAuthorized(formTypes: XrmEnum.FormType[] | undefined, currentFormType: XrmEnum.FormType): boolean {
-        return !formTypes || formTypes.length === 0 || formTypes.includes(currentFormType);
+    private static createAttachment(): FormEventAttachment {
+        return {
+            active: true,
+            registrations: [],
+            values: new Map(),
+            valueTrackers: [],
+            validationErrors: new Map(),
+            showsValidationSummary: false,
+            requiredLevels: new Map(),
+            cyclicComputes: new Set(),
+            failedHandlers: new Set(),
+        };
+    }
+    private static getModifierState(instance: EventHandlerInstance, modifierKey: string): Map<string, number> {
+        const instanceStates = modifierStates.get(instance) ?? new Map<string, Map<string, number>>();
+        modifierStates.set(instance, instanceStates);
+
+        const modifierState = instanceStates.get(modifierKey) ?? new Map<string, number>();
+        instanceStates.set(modifierKey, modifierState);
+        return modifierState;
+    }
+    private static getFormSaveState(formContext: object): FormSaveState {
+        const saveState = formSaveStates.get(formContext) ?? { resaving: false, attachments: new Set<FormEventAttachment>() };
+        formSaveStates.set(formContext, saveState);
+        return saveState;
+    }
+    private static getActiveAttachment(instance: EventHandlerInstance): FormEventAttachment | undefined {
+        // Async results may resolve once the instance has been detached.
+        const attachment = attachments.get(instance);
+        return attachment?.active ? attachment : undefined;
+    }
+    private static isFormTypeAuthorized(formEvent: FormEventDetails, currentFormType: XrmEnum.FormType): boolean {
+        if (formEvent.formTypes?.length) return formEvent.formTypes.includes(currentFormType);
+        return !formEvent.compute || !READ_ONLY_FORM_TYPES.includes(currentFormType);
+    }
+    private static areFiltersSatisfied(filters: FormEventDetails["filters"], runtime: boolean, formContext: Xrm.FormContext, executionContext: Xrm.Events.EventContext | undefined, valueChange?: ValueChange): boolean {
+        return (filters ?? []).filter(filter => filter.runtime === runtime).every(filter => filter.predicate(formContext, executionContext, valueChange));
+    }
+    /**
+     * Returns the decorated method of the instance, or reports it when the instance has no method with this name.
+     */
+    private static getHandlerFunction(instance: EventHandlerInstance, functionName: string): Function | undefined {
+        const fn: unknown = Reflect.get(instance, functionName);
+        if (typeof fn === "function") return fn;
+
+        logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Method "${functionName}" not found on the instance, its events are not attached.`);
+        return undefined;
+    }
+    private static bindHandler<TInstance extends EventHandlerInstance>(instance: TInstance, formEvent: FormEventDetails, fn: Function, eventType: FormEventTypes, formContext: FormContext): Xrm.Events.ContextSensitiveHandler {
+        const attachment = attachments.get(instance);
+        const functionName = formEvent.functionName;
+        const eventDetail = formEvent.events.find(eventDetail => eventDetail.type === eventType);
+        // Validators are awaited on save only when they return a Promise, with the default timeout.
+        const asyncOptions = eventDetail && isAsyncEventDetail(eventDetail) ? eventDetail.async : formEvent.validation && eventType === FormEventTypes.OnSave ? {} : undefined;
+
+        const handler = (...args: any[]) => {
+            if (!attachment?.active) return;
+
+            const executionContext: Xrm.Events.EventContext | undefined = args[0];
+            const reportError = (error: unknown) => {
+                attachment.failedHandlers.add(functionName);
+                instance.onHandlerError(new FormEventHandlerError(instance.constructor.name, functionName, eventType, this.getEventSourceName(executionContext), executionContext, error));
+            };
+            // Inside a promise callback, a hook throwing the error (ErrorPolicy.Rethrow) would only reject the chain and leave
+            // an awaited save cancelled: the error is thrown again outside of the chain instead.
+            const reportAsyncError = (error: unknown) => {
+                try {
+                    reportError(error);
+                }
+                catch (hookError) {
+                    setTimeout(() => { throw hookError; });
+                }
+            };
+            const reportSuccess = () => {
+                if (attachment.failedHandlers.delete(functionName)) instance.onHandlerRecovered?.(functionName, executionContext);
+            };
+
+            const valueChange = eventType === FormEventTypes.OnChange ? attachment.values.get(this.getEventSourceName(executionContext) ?? "") : undefined;
+
+            EventTracer.getTracer(instance)?.record(functionName, eventType, executionContext, executionContext?.getFormContext() ?? formContext);
+
+            const profiler = DecoratorProfiler.getProfiler(instance);
+            let start: number | undefined;
+            const recordInvocation = (threw: boolean) => {
+                if (!profiler || start === undefined) return;
+                profiler.record({ className: instance.constructor.name, functionName, eventType, componentName: this.getEventSourceName(executionContext), start, duration: performance.now() - start, threw });
+            };
+
+            try {
+                if (!this.areFiltersSatisfied(formEvent.filters, true, executionContext?.getFormContext() ?? formContext, executionContext, valueChange)) return;
+
+                start = performance.now();
+                let result = fn.apply(instance, formEvent.parameters?.length ? this.resolveArguments(formEvent.parameters, args, formContext, eventType, valueChange, attachment.originalValues) : args);
+                if (formEvent.validation) result = this.applyValidationResult(instance, formEvent, eventType, executionContext?.getFormContext() ?? formContext, result);
+                if (formEvent.rules?.length) result = this.applyRuleResult(instance, formEvent.rules, executionContext?.getFormContext() ?? formContext, result);
+                if (formEvent.compute) result = this.applyComputeResult(instance, formEvent.functionName, formEvent.compute, executionContext?.getFormContext() ?? formContext, result);
+                if (!isPromiseLike(result)) {
+                    recordInvocation(false);
+                    reportSuccess();
+                    if (formEvent.validation && result === false && eventType === FormEventTypes.OnSave) {
+                        (executionContext as Xrm.Events.SaveEventContext).getEventArgs().preventDefault();
+                    }
+                    return result;
+                }
+                result.then(() => recordInvocation(false), () => recordInvocation(true));
+
+                if (!asyncOptions) return Promise.resolve(result).then(reportSuccess, reportAsyncError);
+
+                const succeeded = this.withTimeout(result, asyncOptions).then(() => {
+                    reportSuccess();
+                    return true;
+                }, (error) => {
+                    reportAsyncError(error);
+                    return false;
+                });
+                if (eventType === FormEventTypes.OnSave) {
+                    this.awaitBeforeSave(attachment, executionContext as Xrm.Events.SaveEventContext, succeeded);
+                    return;
+                }
+                return succeeded;
+            }
+            catch (error) {
+                recordInvocation(true);
+                reportError(error);
+            }
+        };
+
+        const modifiedHandler = (formEvent.modifiers ?? []).reduce((next, modifier) => this.applyModifier(instance, functionName, eventType, modifier, formContext, next), handler);
+        if (eventType !== FormEventTypes.OnSave) return modifiedHandler;
+
+        // The save triggered once async OnSave handlers resolved follows a save the OnSave handlers of every instance of the form
+        // already ran for: none of them runs again, synchronous ones included, and their filters, modifiers and tracing are skipped as well.
+        return (...args: any[]) => {
+            const saveState = this.getFormSaveState((args[0] as Xrm.Events.SaveEventContext).getFormContext());
+            if (saveState.resaving) return;
+
+            if (attachment) saveState.attachments.add(attachment);
+            return modifiedHandler(...args);
+        };
+    }
+    /**
+     * Wraps the handler with the given modifier, keeping a separate state for each component triggering the event.
+     *
+     * @remarks
+     * The Once, OncePerRecord and Throttle state belongs to the instance: `reapply` does not run a Once handler again.
+     */
+    private static applyModifier(instance: EventHandlerInstance, functionName: string, eventType: FormEventTypes, modifier: HandlerModifier, formContext: FormContext, next: (...args: any[]) => unknown): (...args: any[]) => unknown {
+        const getComponentKey = (args: any[]) => this.getEventSourceName(args[0]) ?? "";
+
+        switch (modifier.type) {
+            case ModifierTypes.Debounce: {
+                const timers = new Map<string, ReturnType<typeof setTimeout>>();
+                return (...args) => {
+                    const key = getComponentKey(args);
+                    clearTimeout(timers.get(key));
+                    timers.set(key, setTimeout(() => {
+                        timers.delete(key);
+                        next(...args);
+                    }, modifier.wait));
+                };
+            }
+            case ModifierTypes.Throttle: {
+                const lastCalls = this.getModifierState(instance, `${functionName}|${eventType}|${modifier.type}`);
+                return (...args) => {
+                    const key = getComponentKey(args);
+                    const now = Date.now();
+                    const lastCall = lastCalls.get(key);
+                    if (lastCall !== undefined && now - lastCall < modifier.wait) return;
+
+                    lastCalls.set(key, now);
+                    return next(...args);
+                };
+            }
+            case ModifierTypes.Once:
+            case ModifierTypes.OncePerRecord: {
+                const calledKeys = this.getModifierState(instance, `${functionName}|${eventType}|${modifier.type}`);
+                return (...args) => {
+                    const executionContext: Xrm.Events.EventContext | undefined = args[0];
+                    const recordId = modifier.type === ModifierTypes.OncePerRecord
+                        ? (executionContext?.getFormContext() ?? formContext).data.entity.getId()
+                        : "";
+                    const key = `${recordId}|${getComponentKey(args)}`;
+                    if (calledKeys.has(key)) return;
+
+                    calledKeys.set(key, Date.now());
+                    return next(...args);
+                };
+            }
+        }
+    }
+    private static withTimeout<T>(promise: PromiseLike<T>, asyncOptions: AsyncEventOptions): Promise<T> {
+        const timeout = asyncOptions.timeout ?? DEFAULT_ASYNC_TIMEOUT;
+
+        return new Promise<T>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms.`)), timeout);
+            promise.then(
+                (value) => { clearTimeout(timer); resolve(value); },
+                (error) => { clearTimeout(timer); reject(error); }
+            );
+        });
+    }
+    /**
+     * Cancels the current save and saves again once every async OnSave handler of the save event succeeded.
+     */
+    private static awaitBeforeSave(attachment: FormEventAttachment, executionContext: Xrm.Events.SaveEventContext, succeeded: Promise<boolean>) {
+        const saveEventArgs = executionContext.getEventArgs();
+        saveEventArgs.preventDefault();
+
+        const formContext = executionContext.getFormContext();
+        const saveState = this.getFormSaveState(formContext);
+        if (saveState.pendingSave) {
+            saveState.pendingSave.results.push(succeeded);
+            saveState.pendingSave.attachments.add(attachment);
+            return;
+        }
+
+        const pendingSave: PendingSave = { saveMode: saveEventArgs.getSaveMode(), results: [succeeded], attachments: new Set([attachment]) };
+        saveState.pendingSave = pendingSave;
+
+        // Other OnSave handlers of the same save event, of every instance of the form, are called synchronously: collect their promises before waiting.
+        setTimeout(async () => {
+            saveState.pendingSave = undefined;
+            const results = await Promise.all(pendingSave.results);
+            for (const formAttachment of saveState.attachments) {
+                if (!formAttachment.active) saveState.attachments.delete(formAttachment);
+            }
+            if ([...pendingSave.attachments].some(pendingAttachment => !pendingAttachment.active) || results.includes(false)) return;
+            // A validator failing synchronously in the same save event cancelled it before the async handlers were awaited.
+            if ([...saveState.attachments].some(formAttachment => formAttachment.validationErrors.size > 0)) return;
+
+            saveState.resaving = true;
+            try {
+                await this.resave(formContext, pendingSave.saveMode);
+            }
+            catch (error) {
+                logGroupedWarning(`[D365FormEventDispatcher] Save after async OnSave handlers failed: ${error instanceof Error ? error.message : String(error)}`);
+                flushGroupedWarnings();
+            }
+            finally {
+                saveState.resaving = false;
+            }
+        });
+    }
+    private static async resave(formContext: Xrm.FormContext, saveMode: XrmEnum.SaveMode) {
+        await formContext.data.save({ saveMode });
+
+        if (saveMode === XrmEnum.SaveMode.SaveAndClose) {
+            formContext.ui.close();
+        }
+        else if (saveMode === XrmEnum.SaveMode.SaveAndNew) {
+            await Xrm.Navigation.openForm({ entityName: formContext.data.entity.getEntityName() });
+        }
+    }
+    /**
+     * Displays the message returned by a `D365Validate` validator on the controls of its attributes and refreshes the form notification summary.
+     *
+     * @returns Whether the validator passed, as a Promise for async validators.
+     */
+    private static applyValidationResult<TInstance extends EventHandlerInstance>(instance: TInstance, formEvent: FormEventDetails, eventType: FormEventTypes, formContext: Xrm.FormContext, result: unknown): boolean | Promise<boolean> {
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).then(message => this.applyValidationResult(instance, formEvent, eventType, formContext, message) as boolean);
+        }
+
+        const message = typeof result === "string" && result !== "" ? result : null;
+        const attachment = this.getActiveAttachment(instance);
+        if (!attachment || !formEvent.validation) return message === null;
+
+        const notificationId = `${instance.constructor.name}.${formEvent.functionName}`;
+        for (const attributeName of formEvent.validation.attributeNames) {
+            for (const control of formContext.getAttribute(attributeName)?.controls.get() ?? []) {
+                const standardControl = control as Partial<Xrm.Controls.StandardControl>;
+                if (message === null) standardControl.clearNotification?.(notificationId);
+                else standardControl.setNotification?.(message, notificationId);
+            }
+        }
+
+        if (message === null) {
+            attachment.validationErrors.delete(formEvent.functionName);
+        }
+        else {
+            attachment.validationErrors.set(formEvent.functionName, this.formatValidationError(formContext, formEvent.validation.type === ValidationTypes.Column ? formEvent.validation.attributeNames[0] : undefined, message));
+            if (eventType === FormEventTypes.OnSave) attachment.showsValidationSummary = true;
+        }
+
+        // The summary appears when a save is cancelled, then follows the errors until they are all fixed.
+        const summaryId = `${instance.constructor.name}.validation`;
+        if (attachment.validationErrors.size === 0) attachment.showsValidationSummary = false;
+        if (attachment.showsValidationSummary) formContext.ui.setFormNotification([...attachment.validationErrors.values()].join(" "), "ERROR", summaryId);
+        else formContext.ui.clearFormNotification(summaryId);
+
+        return message === null;
+    }
+    private static formatValidationError(formContext: Xrm.FormContext, attributeName: string | undefined, message: string): string {
+        if (!attributeName) return message;
+
+        const label = formContext.getAttribute(attributeName)?.controls.get(0)?.getLabel() || attributeName;
+        return `${label}: ${message}`;
+    }
+    /**
+     * Applies the boolean returned by a `D365Rule` predicate to the targets of its rules.
+     *
+     * @returns The boolean, as a Promise for async predicates.
+     */
+    private static applyRuleResult<TInstance extends EventHandlerInstance>(instance: TInstance, rules: RuleDetails[], formContext: Xrm.FormContext, result: unknown): boolean | Promise<boolean> {
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).then(value => this.applyRuleResult(instance, rules, formContext, value) as boolean);
+        }
+
+        const active = result === true;
+        const attachment = this.getActiveAttachment(instance);
+        if (!attachment) return active;
+
+        for (const rule of rules) {
+            if (rule.type === RuleTypes.Required) {
+                const attribute = formContext.getAttribute(rule.targetName);
+                if (!attribute) continue;
+
+                if (!attachment.requiredLevels.has(rule.targetName)) attachment.requiredLevels.set(rule.targetName, attribute.getRequiredLevel());
+                attribute.setRequiredLevel(active ? "required" : attachment.requiredLevels.get(rule.targetName) ?? "none");
+                continue;
+            }
+
+            for (const component of this.getRuleComponents(formContext, rule)) {
+                if (rule.type === RuleTypes.Visible) component.setVisible?.(active);
+                else component.setDisabled?.(active);
+            }
+        }
+
+        return active;
+    }
+    /**
+     * Returns every control of the attribute named by the rule, or the control, tab or section with this name.
+     */
+    private static getRuleComponents(formContext: Xrm.FormContext, rule: RuleDetails): { setVisible?(visible: boolean): void; setDisabled?(disabled: boolean): void; }[] {
+        const attribute = formContext.getAttribute(rule.targetName);
+        if (attribute) return attribute.controls.get() as Partial<Xrm.Controls.StandardControl>[];
+
+        const control = formContext.getControl(rule.targetName);
+        if (control) return [control as Partial<Xrm.Controls.StandardControl>];
+        // Tabs and sections cannot be disabled.
+        if (rule.type !== RuleTypes.Visible) return [];
+
+        const tab = formContext.ui.tabs.get(rule.targetName);
+        if (tab) return [tab];
+        return formContext.ui.tabs.get().map(tab => tab.sections.get(rule.targetName)).filter(section => section !== null);
+    }
+    /**
+     * Writes the value returned by a `D365Compute` method to its attribute, when it differs from the current value.
+     */
+    private static applyComputeResult<TInstance extends EventHandlerInstance>(instance: TInstance, functionName: string, compute: ComputeDetails, formContext: Xrm.FormContext, result: unknown): unknown {
+        if (isPromiseLike(result)) {
+            return Promise.resolve(result).then(value => this.applyComputeResult(instance, functionName, compute, formContext, value));
+        }
+
+        const attachment = this.getActiveAttachment(instance);
+        const attribute = formContext.getAttribute(compute.attributeName);
+        if (result === undefined || !attachment || !attribute) return result;
+
+        // Compared like the event tracer does, so that equal dates and lookups are not written again.
+        if (JSON.stringify(attribute.getValue() ?? null) === JSON.stringify(result)) return result;
+
+        attribute.setValue(result as Xrm.Attributes.AttributeValues);
+        if (compute.fireOnChange && !attachment.cyclicComputes.has(functionName)) attribute.fireOnChange();
+        return result;
+    }
+    /**
+     * Replaces the arguments passed by the platform with the values requested by the `D365Event.Inject` parameters.
+     */
+    private static resolveArguments(parameters: HandlerParameter[], args: any[], formContext: FormContext, eventType: FormEventTypes, valueChange: ValueChange | undefined, originalValues: Map<string, unknown> | undefined): unknown[] {
+        const executionContext: Xrm.Events.EventContext | undefined = args[0];
+        const eventSource = executionContext?.getEventSource?.() as { getValue?: () => unknown; getAttribute?: () => Xrm.Attributes.Attribute | null } | undefined;
+        const eventArgs = (executionContext as Partial<Xrm.Events.SaveEventContext> | undefined)?.getEventArgs?.();
+        const isGridEvent = ([FormEventTypes.EditableGridOnRecordSelect, FormEventTypes.EditableGridOnChange, FormEventTypes.EditableGridOnSave] as FormEventTypes[]).includes(eventType);
+
+        const resolvedArgs = [...args];
+        for (const parameter of parameters) {
+            switch (parameter.type) {
+                case ParameterTypes.ExecutionContext: resolvedArgs[parameter.index] = executionContext; break;
+                case ParameterTypes.FormContext: resolvedArgs[parameter.index] = !executionContext ? formContext : isGridEvent ? executionContext.getFormContext() : ContextProvider.from(executionContext); break;
+                case ParameterTypes.EventSource: resolvedArgs[parameter.index] = eventSource; break;
+                case ParameterTypes.Value: resolvedArgs[parameter.index] = eventSource?.getValue ? eventSource.getValue() : eventSource?.getAttribute?.()?.getValue(); break;
+                case ParameterTypes.ComponentName: resolvedArgs[parameter.index] = this.getEventSourceName(executionContext); break;
+                case ParameterTypes.SaveMode: resolvedArgs[parameter.index] = eventArgs?.getSaveMode?.(); break;
+                case ParameterTypes.EventArgs: resolvedArgs[parameter.index] = eventArgs; break;
+                case ParameterTypes.ValueChange: resolvedArgs[parameter.index] = valueChange; break;
+                case ParameterTypes.DirtyAttributes: resolvedArgs[parameter.index] = this.getDirtyAttributes(executionContext?.getFormContext() ?? formContext, originalValues); break;
+            }
+        }
+        return resolvedArgs;
+    }
+    private static getDirtyAttributes(formContext: Xrm.FormContext, originalValues: Map<string, unknown> | undefined): DirtyAttribute[] {
+        return formContext.data.entity.attributes.get()
+            .filter(attribute => attribute.getIsDirty())
+            .map(attribute => ({ name: attribute.getName(), original: originalValues?.get(attribute.getName()), current: attribute.getValue() }));
+    }
+    private static getEventSourceName(executionContext: Xrm.Events.EventContext | undefined): string | undefined {
+        const eventSource = executionContext?.getEventSource?.() as { getName?: () => string } | undefined;
+        return eventSource?.getName?.();
     }
-    private static validateHandlers<T extends FormEventHandlerBase>(instance: T, handlers: FormEventDetails[]) {
+    private static recordRegistration<TInstance extends EventHandlerInstance, TTarget>(
+        instance: TInstance,
+        functionName: string,
+        eventType: FormEventTypes,
+        target: TTarget,
+        handler: Xrm.Events.ContextSensitiveHandler,
+        unregister: ((target: TTarget, handler: Xrm.Events.ContextSensitiveHandler) => void) | undefined
+    ) {
+        attachments.get(instance)?.registrations.push({
+            functionName,
+            eventType,
+            target,
+            handler,
+            detach: () => unregister?.(target, handler),
+        });
+    }
+    /**
+     * Sorts the handlers of an event type so that `After` dependencies run first, then by descending priority and declaration order.
+     */
+    private static sortHandlers<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], eventType: FormEventTypes): FormEventDetails[] {
+        const handlerNames = handlers.map(h => h.functionName);
+        const pending = new Map(handlers.map(h => [h.functionName, (h.after ?? []).filter(name => name !== h.functionName && handlerNames.includes(name))]));
+        const sorted: FormEventDetails[] = [];
+
+        const byPriority = (a: FormEventDetails, b: FormEventDetails) => (b.priority ?? 0) - (a.priority ?? 0) || handlers.indexOf(a) - handlers.indexOf(b);
+
+        while (sorted.length < handlers.length) {
+            const ready = handlers.filter(h => pending.get(h.functionName)?.length === 0).sort(byPriority);
+            const next = ready[0];
+
+            if (!next) {
+                // Only the members of the cycle fall back to priority order, the handlers depending on them still run after them.
+                const blocked = handlers.filter(h => pending.has(h.functionName)).sort(byPriority);
+                const first = blocked.find(h => this.getAfterDependencies(pending, h.functionName).has(h.functionName))!;
+                const firstDependencies = this.getAfterDependencies(pending, first.functionName);
+                const cycle = blocked.filter(h => firstDependencies.has(h.functionName) && this.getAfterDependencies(pending, h.functionName).has(first.functionName));
+                const cycleNames = cycle.map(h => h.functionName);
+
+                logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Circular @After dependencies between "${cycleNames.join(', ')}" for event "${eventType}", falling back to priority order.`);
+                for (const functionName of cycleNames) {
+                    pending.set(functionName, pending.get(functionName)!.filter(name => !cycleNames.includes(name)));
+                }
+                continue;
+            }
+
+            sorted.push(next);
+            pending.delete(next.functionName);
+            for (const [functionName, dependencies] of pending) {
+                pending.set(functionName, dependencies.filter(name => name !== next.functionName));
+            }
+        }
+
+        return sorted;
+    }
+    /**
+     * Returns the names of the handlers the given handler waits for, directly or through other pending handlers.
+     */
+    private static getAfterDependencies(pending: Map<string, string[]>, functionName: string): Set<string> {
+        const dependencies = new Set<string>();
+        const stack = [...pending.get(functionName) ?? []];
+
+        while (stack.length > 0) {
+            const name = stack.pop()!;
+            if (dependencies.has(name)) continue;
+
+            dependencies.add(name);
+            stack.push(...pending.get(name) ?? []);
+        }
+
+        return dependencies;
+    }
+    private static validateHandlers<T extends EventHandlerInstance>(instance: T, handlers: FormEventDetails[]) {
         const formUnknownEvents = handlers.filter(h => h.events.length === 0).map(event => event.functionName);
 
         if (formUnknownEvents.length > 0)
-            logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name}.validateHandlers - Method${formUnknownEvents.length > 1 ? 's' : ''} "${formUnknownEvents.join(', ')}" has @FormTypes but no events.`);
+            logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name}.validateHandlers - Method${formUnknownEvents.length > 1 ? 's' : ''} "${formUnknownEvents.join(', ')}" has filters but no events.`);
+    }
+    private static validateRuleTargets<T extends EventHandlerInstance>(instance: T, handlers: FormEventDetails[], formContext: Xrm.FormContext, formType: XrmEnum.FormType) {
+        for (const formEvent of handlers) {
+            if (!this.isFormTypeAuthorized(formEvent, formType)) continue;
+            for (const rule of formEvent.rules ?? []) {
+                const found = rule.type === RuleTypes.Required ? formContext.getAttribute(rule.targetName) !== null : this.getRuleComponents(formContext, rule).length > 0;
+                if (!found)
+                    logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Target "${rule.targetName}" of rule "${rule.type}" on function "${formEvent.functionName}" not found.`);
+            }
+        }
+    }
+    /**
+     * Reports the computed attributes not found on the form, and the `D365Compute` methods triggering each other in a circle
+     * through `fireOnChange`, whose OnChange event is then not fired.
+     */
+    private static validateComputes<T extends EventHandlerInstance>(instance: T, handlers: FormEventDetails[], formContext: Xrm.FormContext, formType: XrmEnum.FormType) {
+        const attachment = attachments.get(instance);
+        const computes = handlers.filter(h => h.compute && this.isFormTypeAuthorized(h, formType));
+
+        for (const formEvent of computes) {
+            if (formContext.getAttribute(formEvent.compute!.attributeName) === null)
+                logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Computed attribute "${formEvent.compute!.attributeName}" of function "${formEvent.functionName}" not found.`);
+        }
+
+        // A method triggers the methods depending on its attribute when it fires its OnChange event.
+        const getTriggered = (formEvent: FormEventDetails) => formEvent.compute!.fireOnChange
+            ? computes.filter(other => other.compute!.dependencies.includes(formEvent.compute!.attributeName))
+            : [];
+        const isCyclic = (formEvent: FormEventDetails) => {
+            const visited = new Set<FormEventDetails>();
+            const pending = getTriggered(formEvent);
+            for (let next = pending.pop(); next; next = pending.pop()) {
+                if (next === formEvent) return true;
+                if (visited.has(next)) continue;
+                visited.add(next);
+                pending.push(...getTriggered(next));
+            }
+            return false;
+        };
+
+        const cycle = computes.filter(isCyclic).map(h => h.functionName);
+        if (cycle.length === 0) return;
+
+        cycle.forEach(functionName => attachment?.cyclicComputes.add(functionName));
+        logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Circular @D365Compute dependencies between "${cycle.join(', ')}", their OnChange event is not fired.`);
     }
     //#endregion
 
 
     //#region Generic dispatchers
-    private static applySimpleEvents<TInstance extends FormEventHandlerBase>(
+    private static applySimpleEvents<TInstance extends EventHandlerInstance>(
         instance: TInstance,
         handlers: FormEventDetails[],
         formContext: FormContext,
         formType: XrmEnum.FormType,
         eventType: FormEventTypes,
         eventFunction: { [K in keyof FormContext]: FormContext[K] extends (eventFunction: Xrm.Events.ContextSensitiveHandler) => void ? (Parameters<FormContext[K]>[0] extends Xrm.Events.ContextSensitiveHandler ? K : never) : never }[keyof FormContext]
+            | ((formContext: FormContext, handler: Xrm.Events.ContextSensitiveHandler) => void),
+        unregister: (formContext: FormContext, handler: Xrm.Events.ContextSensitiveHandler) => void
     ) {
-        const formEvents = handlers.filter(h => h.events.find(e => e.type === eventType));
+        const formEvents = this.sortHandlers(instance, handlers.filter(h => h.events.find(e => e.type === eventType)), eventType);
 
         for (const formEvent of formEvents) {
-            if (!this.isFormTypeAuthorized(formEvent.formTypes, formType)) continue;
-            if (!(instance as any)[formEvent.functionName]) continue;
-
-            const functionBindToInstance = (instance as any)[formEvent.functionName].bind(instance);
-            formContext[eventFunction](functionBindToInstance);
+            if (!this.isFormTypeAuthorized(formEvent, formType)) continue;
+            if (!this.areFiltersSatisfied(formEvent.filters, false, formContext, undefined)) continue;
+            const fn = this.getHandlerFunction(instance, formEvent.functionName);
+            if (!fn) continue;
+
+            const functionBindToInstance = this.bindHandler(instance, formEvent, fn, eventType, formContext);
+            if (typeof eventFunction === "function") eventFunction(formContext, functionBindToInstance);
+            else formContext[eventFunction](functionBindToInstance);
+            this.recordRegistration(instance, formEvent.functionName, eventType, formContext, functionBindToInstance, unregister);
         }
     }
 
-    private static applyComponentEvents<TInstance extends FormEventHandlerBase, TValid>(
+    private static applyComponentEvents<TInstance extends EventHandlerInstance, TValid>(
         instance: TInstance,
         handlers: FormEventDetails[],
         formContext: FormContext,
@@ -114,67 +801,122 @@ export class FormEventDispatcher {
         getItems: (formContext: FormContext, itemNames: string[]) => TValid[],
         itemTypeChecker: (item: unknown) => item is TValid,
         getItemName: (item: TValid) => string,
-        register: (formControl: FormContext, items: TValid[], handler: Xrm.Events.ContextSensitiveHandler) => void
+        register: (formControl: FormContext, items: TValid[], handler: Xrm.Events.ContextSensitiveHandler) => void,
+        unregister: ((item: TValid, handler: Xrm.Events.ContextSensitiveHandler) => void) | undefined,
+        adaptHandler?: (handler: Xrm.Events.ContextSensitiveHandler) => Xrm.Events.ContextSensitiveHandler
     ) {
-        const formEvents = handlers.filter(h => h.events.find(eventDetail => eventDetail.type === eventType));
+        const formEvents = this.sortHandlers(instance, handlers.filter(h => h.events.find(eventDetail => eventDetail.type === eventType)), eventType);
 
         for (const formEvent of formEvents) {
-            if (!this.isFormTypeAuthorized(formEvent.formTypes, formType)) continue;
-            if (!(instance as any)[formEvent.functionName]) continue;
-
-            const functionBindToInstance = (instance as any)[formEvent.functionName].bind(instance);
+            if (!this.isFormTypeAuthorized(formEvent, formType)) continue;
+            if (!this.areFiltersSatisfied(formEvent.filters, false, formContext, undefined)) continue;
+            const fn = this.getHandlerFunction(instance, formEvent.functionName);
+            if (!fn) continue;
+
+            const functionBindToInstance = adaptHandler
+                ? adaptHandler(this.bindHandler(instance, formEvent, fn, eventType, formContext))
+                : this.bindHandler(instance, formEvent, fn, eventType, formContext);
             for (const event of formEvent.events.filter(eventDetail => isMatchingComponentEvent(eventDetail, eventType))) {
-                const formItemNames = event.componentNames;
+                const { componentNames: formItemNames, selections } = this.expandSelectors(formContext, event.componentNames, getComponentScope(eventType));
 
                 const items = getItems(formContext, formItemNames).filter(item => itemTypeChecker(item));
 
                 register(formContext, items, functionBindToInstance);
+                for (const item of items) {
+                    this.recordRegistration(instance, formEvent.functionName, eventType, item, functionBindToInstance, unregister);
+                }
 
                 const foundItemNames = items.map(item => getItemName(item));
-                const unfoundItemNames = formItemNames.filter(itemName => !foundItemNames.includes(itemName));
+                // Selectors may match components not applicable to the event, they are only reported when none of them is.
+                const selectedItemNames = selections.flatMap(selection => selection.componentNames);
+                const unfoundItemNames = [
+                    ...selections.filter(selection => !selection.componentNames.some(itemName => foundItemNames.includes(itemName))).map(selection => selection.label),
+                    ...formItemNames.filter(itemName => !selectedItemNames.includes(itemName) && !foundItemNames.includes(itemName)),
+                ];
 
                 if (unfoundItemNames.length > 0)
                     logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - Attribute${unfoundItemNames.length > 1 ? 's' : ''} "${unfoundItemNames.join(', ')}" not found or not applicable for event "${eventType}" on function "${formEvent.functionName}" and form type ${FormTypeLabel[formType]}.`);
             }
         }
     }
+    /**
+     * Replaces the selectors with the names of the components they match on the form, when the handlers are attached.
+     */
+    private static expandSelectors(formContext: Xrm.FormContext, componentTargets: ComponentTarget[], scope: ComponentScope): { componentNames: string[]; selections: { label: string; componentNames: string[] }[] } {
+        const componentNames = new Set<string>();
+        const selections: { label: string; componentNames: string[] }[] = [];
+
+        for (const componentTarget of componentTargets) {
+            if (!isComponentSelector(componentTarget)) {
+                componentNames.add(componentTarget);
+                continue;
+            }
+
+            const selectedNames = resolveSelector(formContext, componentTarget, scope);
+            selections.push({ label: formatComponentTarget(componentTarget), componentNames: selectedNames });
+            selectedNames.forEach(name => componentNames.add(name));
+        }
+
+        return { componentNames: [...componentNames], selections };
+    }
     //#endregion
 
 
     //#region Load Events
-    private static applyOnDataLoadEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnDataLoad, "addOnDataLoad");
+    private static applyOnDataLoadEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnDataLoad, "addOnDataLoad",
+            (formContext, handler) => formContext.data.removeOnLoad(handler)
+        );
     }
-    private static applyOnLoadEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnLoad, "addOnLoad");
+    private static applyOnLoadEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnLoad, "addOnLoad",
+            (formContext, handler) => formContext.ui.removeOnLoad(handler)
+        );
     }
-    private static applyLoadedEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.Loaded, "addLoaded");
+    private static applyLoadedEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        const ui: object = formContext.ui;
+        if (!isLoadedEventUi(ui)) {
+            if (handlers.some(h => h.events.some(e => e.type === FormEventTypes.Loaded))) {
+                logGroupedWarning(`[D365FormEventDispatcher] ${instance.constructor.name} - The Loaded event is not available on this client, its handlers are not attached.`);
+            }
+            return;
+        }
+        const loadedEventUi = ui;
+
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.Loaded,
+            (_formContext, handler) => loadedEventUi.addLoaded(handler),
+            (_formContext, handler) => loadedEventUi.removeLoaded(handler)
+        );
     }
     //#endregion
 
 
     //#region Save Events
-    private static applyOnSaveEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnSave, "addOnSave");
+    private static applyOnSaveEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnSave, "addOnSave",
+            (formContext, handler) => formContext.data.entity.removeOnSave(handler)
+        );
     }
-    private static applyOnPostSaveEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPostSave, "addOnPostSave");
+    private static applyOnPostSaveEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPostSave, "addOnPostSave",
+            (formContext, handler) => formContext.data.entity.removeOnPostSave(handler)
+        );
     }
     //#endregion
 
 
     //#region Tab Events
-    private static applyOnTabStateChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnTabStateChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnTabStateChange,
             (formContext, tabNames) => formContext.getTab(tabNames),
             isTabControl,
             (item) => item.getName(),
-            (formContext, items, handler) => formContext.addTabStateChange(items, handler)
+            (formContext, items, handler) => formContext.addTabStateChange(items, handler),
+            (tabControl, handler) => tabControl.removeTabStateChange(handler)
         );
     }
-    private static _applyOnTabSpecificStateEvents<TInstance extends FormEventHandlerBase, TEvent extends EventDetail>(
+    private static _applyOnTabSpecificStateEvents<TInstance extends EventHandlerInstance, TEvent extends EventDetail>(
         instance: TInstance,
         handlers: FormEventDetails[],
         formContext: FormContext,
@@ -187,27 +929,25 @@ export class FormEventDispatcher {
             (formContext, tabNames) => formContext.getTab(tabNames),
             isTabControl,
             (item) => item.getName(),
-            (_, items, handler) => {
-                for (const tabControl of items) {
-                    tabControl.addTabStateChange((executionContext) => {
-                        const formContext = ContextProvider.from(executionContext);
-                        const tabControl = formContext.getEventSource() as any as Xrm.Controls.Tab;
-                        if (tabControl) {
-                            const tabDisplayState = tabControl.getDisplayState();
-                            if (tabDisplayState === authorizedTabDisplayState) {
-                                handler(executionContext);
-                            }
-                        }
-                    });
+            (formContext, items, handler) => formContext.addTabStateChange(items, handler),
+            (tabControl, handler) => tabControl.removeTabStateChange(handler),
+            (handler) => (executionContext) => {
+                const formContext = ContextProvider.from(executionContext);
+                const tabControl = formContext.getEventSource() as any as Xrm.Controls.Tab;
+                if (tabControl) {
+                    const tabDisplayState = tabControl.getDisplayState();
+                    if (tabDisplayState === authorizedTabDisplayState) {
+                        handler(executionContext);
+                    }
                 }
             }
         );
     }
-    private static applyOnTabExpandEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnTabExpandEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this._applyOnTabSpecificStateEvents(instance, handlers, formContext, formType, FormEventTypes.OnTabExpand, "expanded");
     }
-    private static applyOnTabCollapseEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnTabCollapseEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this._applyOnTabSpecificStateEvents(instance, handlers, formContext, formType, FormEventTypes.OnTabCollapse, "collapsed");
     }
@@ -215,136 +955,205 @@ export class FormEventDispatcher {
 
 
     //#region Change Events
-    private static applyOnChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    /**
+     * Keeps the last known value of each attribute watched by OnChange handlers, exposed to them as a {@link ValueChange}.
+     *
+     * @remarks
+     * The values are read when handlers are attached, then on each OnChange event, before the handlers of the instance run.
+     * They are read again on data load and post-save, so that a reload or a save starts a new baseline. The original values of
+     * every attribute are kept the same way when a handler injects the dirty attributes.
+     */
+    private static applyValueTracking<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: Xrm.FormContext) {
+        const attachment = attachments.get(instance);
+        if (!attachment) return;
+
+        const attributeTargets = handlers.flatMap(h => h.events.filter(eventDetail => isMatchingComponentEvent(eventDetail, FormEventTypes.OnChange)).flatMap(eventDetail => eventDetail.componentNames));
+        const attributes = this.expandSelectors(formContext, attributeTargets, "attribute").componentNames.map(attributeName => formContext.getAttribute(attributeName)).filter(attribute => attribute !== null);
+        const keepsOriginalValues = handlers.some(h => h.parameters?.some(parameter => parameter.type === ParameterTypes.DirtyAttributes));
+        if (attributes.length === 0 && !keepsOriginalValues) return;
+
+        const resetValues = () => {
+            for (const attribute of attributes) {
+                const value = attribute.getValue();
+                attachment.values.set(attribute.getName(), { previous: value, current: value });
+            }
+            if (keepsOriginalValues) {
+                attachment.originalValues = new Map(formContext.data.entity.attributes.get().map(attribute => [attribute.getName(), attribute.getValue()]));
+            }
+        };
+        resetValues();
+
+        for (const attribute of attributes) {
+            const trackValue = () => {
+                const lastValue = attachment.values.get(attribute.getName());
+                attachment.values.set(attribute.getName(), { previous: lastValue?.current ?? null, current: attribute.getValue() });
+            };
+            attribute.addOnChange(trackValue);
+            attachment.valueTrackers.push(() => attribute.removeOnChange(trackValue));
+        }
+
+        formContext.data.addOnLoad(resetValues);
+        formContext.data.entity.addOnPostSave(resetValues);
+        attachment.valueTrackers.push(() => formContext.data.removeOnLoad(resetValues), () => formContext.data.entity.removeOnPostSave(resetValues));
+    }
+    private static applyOnChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnChange,
             (formContext, attributeNames) => formContext.getAttribute(attributeNames),
             isAttribute,
             (item) => item.getName(),
-            (formContext, items, handler) => formContext.addOnChange(items, handler)
+            (formContext, items, handler) => formContext.addOnChange(items, handler),
+            (attribute, handler) => attribute.removeOnChange(handler)
         );
     }
     //#endregion
 
 
     //#region Lookup Events
-    private static applyOnLookupTagClickEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnLookupTagClickEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnLookupTagClick,
             (formContext, lookupNames) => formContext.getControl(lookupNames),
             isLookupControl,
             (item) => item.getName(),
-            (formContext, items, handler) => formContext.addOnLookupTagClick(items, handler)
+            (formContext, items, handler) => formContext.addOnLookupTagClick(items, handler),
+            (lookupControl, handler) => lookupControl.removeOnLookupTagClick(handler)
         );
     }
-    private static applyPreSearchEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyPreSearchEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.PreSearch,
             (formContext, lookupNames) => formContext.getControl(lookupNames),
             isLookupControl,
             (item) => item.getName(),
-            (formContext, items, handler) => formContext.addPreSearch(items, handler)
+            (formContext, items, handler) => formContext.addPreSearch(items, handler),
+            (lookupControl, handler) => lookupControl.removePreSearch(handler)
         );
     }
     //#endregion
 
 
     //#region SubGrid Events
-    private static applySubGridOnLoadEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applySubGridOnLoadEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.SubGridOnLoad,
             (formContext, gridNames) => formContext.getControl(gridNames),
             isGridControl,
             (gridControl) => gridControl.getName(),
-            (formContext, gridControls, handler) => formContext.addSubGridOnLoad(gridControls, handler)
+            (formContext, gridControls, handler) => formContext.addSubGridOnLoad(gridControls, handler),
+            (gridControl, handler) => gridControl.removeOnLoad(handler)
         );
     }
-    private static applySubGridOnRecordSelectEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applySubGridOnRecordSelectEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.SubGridOnRecordSelect,
             (formContext, gridNames) => formContext.getControl(gridNames),
             isGridControl,
             (gridControl) => gridControl.getName(),
-            (formContext, gridControls, handler) => formContext.addSubGridOnRecordSelect(gridControls, handler)
+            (formContext, gridControls, handler) => formContext.addSubGridOnRecordSelect(gridControls, handler),
+            undefined
         );
     }
     //#endregion
 
 
     //#region IFrame Events
-    private static applyOnReadyStateCompleteEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnReadyStateCompleteEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnReadyStateComplete,
             (formContext, webresourceNames) => formContext.getControl(webresourceNames),
             isIframeControl,
             (gridControl) => gridControl.getName(),
-            (formContext, iframeControls, handler) => formContext.addOnReadyStateComplete(iframeControls, handler)
+            (formContext, iframeControls, handler) => formContext.addOnReadyStateComplete(iframeControls, handler),
+            undefined
         );
     }
     //#endregion
 
 
     //#region BPF Events
-    private static applyOnProcessStatusChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnProcessStatusChange, "addOnProcessStatusChange");
+    private static applyOnProcessStatusChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnProcessStatusChange, "addOnProcessStatusChange",
+            (formContext, handler) => formContext.data.process.removeOnProcessStatusChange(handler)
+        );
     }
-    private static applyOnPreProcessStatusChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPreProcessStatusChange, "addOnPreProcessStatusChange");
+    private static applyOnPreProcessStatusChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPreProcessStatusChange, "addOnPreProcessStatusChange",
+            (formContext, handler) => formContext.data.process.removeOnPreProcessStatusChange(handler)
+        );
     }
-    private static applyOnPreStageChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPreStageChange, "addOnPreStageChange");
+    private static applyOnPreStageChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnPreStageChange, "addOnPreStageChange",
+            (formContext, handler) => formContext.data.process.removeOnPreStageChange(handler)
+        );
     }
-    private static applyOnStageChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnStageChange, "addOnStageChange");
+    private static applyOnStageChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnStageChange, "addOnStageChange",
+            (formContext, handler) => formContext.data.process.removeOnStageChange(handler)
+        );
     }
-    private static applyOnStageSelectedEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
-        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnStageSelected, "addOnStageSelected");
+    private static applyOnStageSelectedEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+        this.applySimpleEvents(instance, handlers, formContext, formType, FormEventTypes.OnStageSelected, "addOnStageSelected",
+            (formContext, handler) => formContext.data.process.removeOnStageSelected(handler)
+        );
     }
     //#endregion
 
 
     //#region PCF Events
-    private static applyOnOutputChangeEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnOutputChangeEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
-        this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnReadyStateComplete,
-            (formContext, webresourceNames) => formContext.getControl(webresourceNames),
+        this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnOutputChange,
+            (formContext, controlNames) => formContext.getControl(controlNames),
             isStandardControl,
-            (gridControl) => gridControl.getName(),
-            (formContext, controls, handler) => formContext.addOnOutputChange(controls, handler)
+            (control) => control.getName(),
+            (formContext, controls, handler) => formContext.addOnOutputChange(controls, handler),
+            (control, handler) => control.removeOnOutputChange(handler)
         );
     }
     //#endregion
 
 
     //#region KnowledgeBase Events
-    private static applyOnResultOpenedEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnResultOpenedEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnResultOpened,
             (formContext, webresourceNames) => formContext.getControl(webresourceNames),
             isKbSearchControl,
             (knowlageBaseSearchControl) => knowlageBaseSearchControl.getName(),
-            (formContext, knowlageBaseSearchControl, handler) => formContext.addOnResultOpened(knowlageBaseSearchControl, handler)
+            (formContext, knowlageBaseSearchControl, handler) => formContext.addOnResultOpened(knowlageBaseSearchControl, handler),
+            (knowlageBaseSearchControl, handler) => knowlageBaseSearchControl.removeOnResultOpened(handler)
         );
     }
-    private static applyOnSelectionEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyOnSelectionEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.OnSelection,
             (formContext, webresourceNames) => formContext.getControl(webresourceNames),
             isKbSearchControl,
             (knowlageBaseSearchControl) => knowlageBaseSearchControl.getName(),
-            (formContext, knowlageBaseSearchControl, handler) => formContext.addOnSelection(knowlageBaseSearchControl, handler)
+            (formContext, knowlageBaseSearchControl, handler) => formContext.addOnSelection(knowlageBaseSearchControl, handler),
+            (knowlageBaseSearchControl, handler) => knowlageBaseSearchControl.removeOnSelection(handler)
         );
     }
-    private static applyPostSearchEvents<TInstance extends FormEventHandlerBase>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
+    private static applyPostSearchEvents<TInstance extends EventHandlerInstance>(instance: TInstance, handlers: FormEventDetails[], formContext: FormContext, formType: XrmEnum.FormType) {
 
         this.applyComponentEvents(instance, handlers, formContext, formType, FormEventTypes.PostSearch,
             (formContext, webresourceNames) => formContext.getControl(webresourceNames),
             isKbSearchControl,
             (knowledgeBaseSearchControl) => knowledgeBaseSearchControl.getName(),
-            (formContext, knowledgeBaseSearchControl, handler) => formContext.addOnPostSearch(knowledgeBaseSearchControl, handler)
+            (formContext, knowledgeBaseSearchControl, handler) => formContext.addOnPostSearch(knowledgeBaseSearchControl, handler),
+            (knowledgeBaseSearchControl, handler) => knowledgeBaseSearchControl.removeOnPostSearch(handler)
         );
     }
     //#endregion
 }
 
-export default FormEventDispatcher;
+function isLoadedEventUi(ui: object): ui is LoadedEventUi {
+    return typeof Reflect.get(ui, "addLoaded") === "function" && typeof Reflect.get(ui, "removeLoaded") === "function";
+}
+
+export function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown> | undefined)?.then === "function";
+}
+
+export default FormEventDispatcher;
\ No newline at end of file
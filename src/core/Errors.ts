@@ -0,0 +1,27 @@
+import { FormEventTypes } from "./Types";
+
+
+/**
+ * Error raised when a decorated handler throws while being dispatched.
+ *
+ * @remarks
+ * The original error is available through `cause`.
+ */
+export class FormEventHandlerError extends Error {
+
+    constructor(
+        readonly className: string,
+        readonly functionName: string,
+        readonly eventType: FormEventTypes,
+        readonly componentName: string | undefined,
+        readonly executionContext: Xrm.Events.EventContext | undefined,
+        cause: unknown
+    ) {
+        const componentDesc = componentName ? ` for "${componentName}"` : "";
+        const causeDesc = cause instanceof Error ? cause.message : String(cause);
+        super(`[D365FormEventDispatcher] ${className}.${functionName} failed on event "${eventType}"${componentDesc}: ${causeDesc}`, { cause });
+        this.name = "FormEventHandlerError";
+    }
+}
+
+export default FormEventHandlerError;
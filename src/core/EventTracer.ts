@@ -0,0 +1,186 @@
+import { FormEventTypes } from "./Types";
+
+
+export type TraceEntry = {
+    /** Entries sharing the same id were delivered for the same event, one entry per handler. */
+    eventId: number;
+    /** Milliseconds elapsed since the trace started. */
+    timestamp: number;
+    eventType: FormEventTypes;
+    componentName: string | undefined;
+    functionName: string;
+    /** Attribute values changed since the previous entry, dates encoded as `{ "$date": isoString }`. */
+    values: Record<string, unknown>;
+    saveMode: XrmEnum.SaveMode | undefined;
+    formType: XrmEnum.FormType | undefined;
+    /** Display state of the tab, for tab events. */
+    displayState: Xrm.DisplayState | undefined;
+}
+
+export type EventTrace = {
+    className: string;
+    entityName: string;
+    recordId: string;
+    formType: XrmEnum.FormType | undefined;
+    startedAt: string;
+    /** Attributes of the form when the trace started. */
+    attributes: { name: string; type: string; value: unknown; }[];
+    /** Tabs of the form when the trace started. */
+    tabs: { name: string; displayState: Xrm.DisplayState; }[];
+    entries: TraceEntry[];
+}
+
+export type EventTracerOptions = {
+    /**
+     * Maximum number of entries kept, the oldest ones are dropped first.
+     * @defaultValue 5000
+     */
+    maxEntries?: number;
+}
+
+
+const instanceTracers = new WeakMap<object, EventTracer>();
+
+
+/**
+ * Records the ordered sequence of events delivered by the dispatcher to a handler instance.
+ *
+ * @remarks
+ * The trace is a JSON-serializable artifact, replayed against a fake form with `replayTrace` from the testing entry point.
+ */
+export class EventTracer {
+    /**
+     * Starts tracing the events delivered to the given handler instance.
+     *
+     * @remarks
+     * Returns the existing tracer when the instance is already traced.
+     */
+    static enableFor(instance: object, formContext: Xrm.FormContext, options: EventTracerOptions = {}): EventTracer {
+        const tracer = instanceTracers.get(instance) ?? new EventTracer(instance.constructor.name, formContext, options);
+        instanceTracers.set(instance, tracer);
+        return tracer;
+    }
+
+    static disableFor(instance: object): void {
+        instanceTracers.delete(instance);
+    }
+
+    static getTracer(instance: object): EventTracer | undefined {
+        return instanceTracers.get(instance);
+    }
+
+
+    private readonly trace: EventTrace;
+    private readonly maxEntries: number;
+    private readonly startTime = performance.now();
+    private readonly eventIds = new WeakMap<object, number>();
+    private lastEventId = 0;
+    private lastValues: Record<string, string> = {};
+
+    constructor(className: string, formContext: Xrm.FormContext, options: EventTracerOptions = {}) {
+        this.maxEntries = options.maxEntries ?? 5000;
+
+        const attributes = formContext.data.entity.attributes.get().map(attribute => ({
+            name: attribute.getName(),
+            type: attribute.getAttributeType(),
+            value: encodeValue(attribute.getValue()),
+        }));
+        this.lastValues = Object.fromEntries(attributes.map(attribute => [attribute.name, JSON.stringify(attribute.value)]));
+
+        this.trace = {
+            className,
+            entityName: formContext.data.entity.getEntityName(),
+            recordId: formContext.data.entity.getId(),
+            formType: formContext.ui?.getFormType(),
+            startedAt: new Date().toISOString(),
+            attributes,
+            tabs: formContext.ui?.tabs.get().map(tab => ({ name: tab.getName(), displayState: tab.getDisplayState() })) ?? [],
+            entries: [],
+        };
+    }
+
+    get entries(): readonly TraceEntry[] {
+        return this.trace.entries;
+    }
+
+    /**
+     * Records the delivery of an event to a handler.
+     */
+    record(functionName: string, eventType: FormEventTypes, executionContext: Xrm.Events.EventContext | undefined, formContext: Xrm.FormContext) {
+        const eventSource = executionContext?.getEventSource?.() as { getName?: () => string; getDisplayState?: () => Xrm.DisplayState } | undefined;
+        const eventArgs = (executionContext as Partial<Xrm.Events.SaveEventContext> | undefined)?.getEventArgs?.() as { getSaveMode?: () => XrmEnum.SaveMode } | undefined;
+
+        this.trace.entries.push({
+            eventId: this.getEventId(executionContext, eventType),
+            timestamp: Math.round((performance.now() - this.startTime) * 100) / 100,
+            eventType,
+            componentName: eventSource?.getName?.(),
+            functionName,
+            values: this.readChangedValues(executionContext?.getFormContext() ?? formContext),
+            saveMode: eventArgs?.getSaveMode?.(),
+            formType: formContext.ui?.getFormType(),
+            displayState: eventSource?.getDisplayState?.(),
+        });
+
+        if (this.trace.entries.length > this.maxEntries) {
+            this.trace.entries.splice(0, this.trace.entries.length - this.maxEntries);
+        }
+    }
+
+    clear() {
+        this.trace.entries.length = 0;
+    }
+
+    toJSON(): EventTrace {
+        return this.trace;
+    }
+
+    /**
+     * Returns the trace as a JSON string, to attach to a bug report.
+     */
+    export(): string {
+        return JSON.stringify(this.trace, null, 2);
+    }
+
+    /**
+     * Handlers of the same event share the execution context, the Loaded event has none and is grouped by consecutive entries.
+     */
+    private getEventId(executionContext: Xrm.Events.EventContext | undefined, eventType: FormEventTypes): number {
+        if (!executionContext) {
+            const lastEntry = this.trace.entries[this.trace.entries.length - 1];
+            return lastEntry?.eventType === eventType ? lastEntry.eventId : ++this.lastEventId;
+        }
+
+        const eventId = this.eventIds.get(executionContext) ?? ++this.lastEventId;
+        this.eventIds.set(executionContext, eventId);
+        return eventId;
+    }
+
+    private readChangedValues(formContext: Xrm.FormContext): Record<string, unknown> {
+        const changedValues: Record<string, unknown> = {};
+
+        for (const attribute of formContext.data.entity.attributes.get()) {
+            const value = encodeValue(attribute.getValue());
+            const serializedValue = JSON.stringify(value);
+            if (this.lastValues[attribute.getName()] === serializedValue) continue;
+
+            this.lastValues[attribute.getName()] = serializedValue;
+            changedValues[attribute.getName()] = value;
+        }
+
+        return changedValues;
+    }
+}
+
+
+/**
+ * Encodes dates as `{ "$date": isoString }` so that they survive the JSON round trip.
+ */
+export function encodeValue(value: unknown): unknown {
+    return value instanceof Date ? { $date: value.toISOString() } : value ?? null;
+}
+
+export function decodeValue(value: unknown): unknown {
+    const date = (value as { $date?: unknown } | null)?.$date;
+    return typeof date === "string" ? new Date(date) : value;
+}
@@ -0,0 +1,66 @@
+import { getOrCreateNamespace } from "../utils/namespace";
+import type FormEventHandlerBase from "./HandlerBase";
+
+
+export type FormScriptOptions = {
+    /** Name of the web resource containing the script, recorded for the deployment tooling. */
+    library?: string;
+}
+
+export type FormScriptManifest = {
+    namespace: string;
+    className: string;
+    library: string | undefined;
+    /** Function to set as the form OnLoad event handler, with "Pass execution context as first parameter" checked. */
+    onLoad: string;
+}
+
+export type FormScriptEntryPoints<T extends FormEventHandlerBase> = {
+    onLoad: (executionContext: Xrm.Events.EventContext) => T;
+}
+
+type FormScriptClass<T extends FormEventHandlerBase> = (new (executionContext: Xrm.Events.EventContext) => T) & Pick<typeof FormEventHandlerBase, "instancePolicy" | "getOrCreate">;
+
+
+const registeredFormScripts: FormScriptManifest[] = [];
+
+
+/**
+ * Creates the global `onLoad` function instantiating the handler class, for example `Contoso.Account.Main.onLoad`.
+ *
+ * @remarks
+ * The class is instantiated with `getOrCreate`: when an instance of the class is already bound to the form context and its
+ * `instancePolicy` is `InstancePolicy.Reuse`, the existing instance is returned without running the constructor again.
+ *
+ * @example
+ * ```ts
+ * registerFormScript("Contoso.Account.Main", AccountFormHandler, { library: "contoso_/scripts/account.js" });
+ * // Form editor: library "contoso_/scripts/account.js", OnLoad function "Contoso.Account.Main.onLoad"
+ * ```
+ *
+ * @returns The namespace entry points.
+ */
+export function registerFormScript<T extends FormEventHandlerBase>(namespace: string, handlerClass: FormScriptClass<T>, options: FormScriptOptions = {}): FormScriptEntryPoints<T> {
+    const namespaceObject = getOrCreateNamespace(namespace);
+
+    const onLoad = (executionContext: Xrm.Events.EventContext): T => handlerClass.getOrCreate(executionContext);
+    namespaceObject["onLoad"] = onLoad;
+
+    const manifest: FormScriptManifest = {
+        namespace,
+        className: handlerClass.name,
+        library: options.library,
+        onLoad: `${namespace}.onLoad`,
+    };
+    const existingIndex = registeredFormScripts.findIndex(registered => registered.namespace === namespace);
+    registeredFormScripts.splice(existingIndex === -1 ? registeredFormScripts.length : existingIndex, 1, manifest);
+
+    return { onLoad };
+}
+
+/**
+ * Returns the form scripts registered with {@link registerFormScript}, to configure the form libraries and event handlers.
+ */
+export function getRegisteredFormScripts(): readonly FormScriptManifest[] {
+    return registeredFormScripts;
+}
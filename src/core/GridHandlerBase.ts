@@ -0,0 +1,124 @@
+import { errorMessage } from "../utils/logger";
+import { DecoratorProfiler, type HandlerProfiler, type HandlerProfilerOptions } from "./DecoratorProfiler";
+import FormEventDispatcher from "./Dispatcher";
+import FormEventHandlerError from "./Errors";
+import { EditableGridEventType, ErrorPolicy, FormEventTypes } from "./Types";
+
+
+/**
+ * Functions to register on the events of an editable grid, with "Pass execution context as first parameter" checked.
+ */
+export type EditableGridEventHandlers = {
+    /** Register on the grid OnRecordSelect event. */
+    onRecordSelect: (executionContext: Xrm.Events.EventContext) => void;
+    /** Register on the OnChange event of each column used by `EditableGrid.OnCellChange`. */
+    onChange: (executionContext: Xrm.Events.EventContext) => void;
+    /** Register on the grid OnSave event. */
+    onSave: (executionContext: Xrm.Events.EventContext) => void;
+}
+
+
+/**
+ * Base class for handling Dynamics 365 editable grid events using decorators.
+ *
+ * @remarks
+ * Editable grid events are registered on the grid (form subgrid or entity grid) rather than on the form, and there is no form
+ * OnLoad event to instantiate the class. Register the functions returned by {@link EditableGridHandlerBase.getEventHandlers}
+ * instead: the class is instantiated on the first grid event and the instance handles the following ones.
+ *
+ * Only the `D365Event.EditableGrid` decorators are dispatched, along with filters, modifiers and order decorators.
+ *
+ * @example
+ * ```ts
+ * class OpportunityProductGridHandler extends EditableGridHandlerBase {
+ *      ⁤@D365Event.EditableGrid.OnCellChange("quantity")
+ *      onQuantityChange(executionContext: Xrm.Events.EventContext) {
+ *          const row = executionContext.getFormContext();
+ *      }
+ * }
+ * // Register "OpportunityProductGrid.onChange" on the quantity column OnChange event.
+ * export const OpportunityProductGrid = OpportunityProductGridHandler.getEventHandlers();
+ * ```
+ */
+export abstract class EditableGridHandlerBase {
+
+    /**
+     * Behavior applied by {@link EditableGridHandlerBase.onHandlerError} when a decorated handler throws.
+     *
+     * @remarks
+     * Grid rows have no form notification area, `Notify` opens an alert dialog instead. The grid save cannot be cancelled,
+     * `PreventSave` behaves as `Notify`.
+     */
+    static errorPolicy: ErrorPolicy = ErrorPolicy.Log;
+
+    constructor(executionContext: Xrm.Events.EventContext) {
+        FormEventDispatcher.applyGridEvents(this, executionContext);
+    }
+
+    /**
+     * Returns the entry points to register on the editable grid events.
+     *
+     * @remarks
+     * Call it once per class, each call creates its own instance of the class.
+     * Once the instance is disposed, the next grid event creates a new one.
+     */
+    static getEventHandlers<T extends EditableGridHandlerBase>(this: new (executionContext: Xrm.Events.EventContext) => T): EditableGridEventHandlers {
+        let instance: T | undefined;
+
+        const dispatch = (eventType: EditableGridEventType) => (executionContext: Xrm.Events.EventContext) => {
+            if (!instance || !FormEventDispatcher.isAttached(instance)) instance = new this(executionContext);
+            FormEventDispatcher.dispatchGridEvent(instance, eventType, executionContext);
+        };
+
+        return {
+            onRecordSelect: dispatch(FormEventTypes.EditableGridOnRecordSelect),
+            onChange: dispatch(FormEventTypes.EditableGridOnChange),
+            onSave: dispatch(FormEventTypes.EditableGridOnSave),
+        };
+    }
+
+    /**
+     * Called by the dispatcher when a decorated handler throws.
+     *
+     * @remarks
+     * The default implementation applies the static `errorPolicy` of the class.
+     * Override it to route errors to your own telemetry or notification logic.
+     *
+     * @param error - The error thrown by the handler, wrapped with the class, method, event and column names.
+     */
+    public onHandlerError(error: FormEventHandlerError): void {
+        const errorPolicy = (this.constructor as typeof EditableGridHandlerBase).errorPolicy;
+        if (errorPolicy === ErrorPolicy.Rethrow) throw error;
+
+        errorMessage(error.message, error.cause);
+        if (errorPolicy === ErrorPolicy.Log) return;
+
+        Xrm.Navigation.openAlertDialog({ text: error.message });
+    }
+
+    /**
+     * Starts recording every call of the decorated methods of this instance.
+     * @returns The profiler of the instance, exposing the query API.
+     */
+    public enableProfiling(options?: HandlerProfilerOptions): HandlerProfiler {
+        return DecoratorProfiler.enableFor(this, options);
+    }
+
+    public disableProfiling(): void {
+        DecoratorProfiler.disableFor(this);
+    }
+
+    /**
+     * Disables every grid event handler of this instance.
+     *
+     * @remarks
+     * The functions returned by {@link EditableGridHandlerBase.getEventHandlers} no longer call this instance,
+     * they create a new one on the next grid event.
+     */
+    public dispose(): void {
+        FormEventDispatcher.detach(this);
+    }
+
+}
+
+export default EditableGridHandlerBase;
@@ -1,9 +1,15 @@
 
 import Provider from "@sguez/d365-form-helpers/Provider";
-import { DecoratorProfiler } from "./DecoratorProfiler";
-import FormEventDispatcher from "./Dispatcher";
+import { DecoratorProfiler, type HandlerProfiler, type HandlerProfilerOptions } from "./DecoratorProfiler";
+import { errorMessage } from "../utils/logger";
+import { EventTracer, type EventTracerOptions } from "./EventTracer";
+import FormEventDispatcher, { flushGroupedWarnings, logGroupedWarning } from "./Dispatcher";
+import FormEventHandlerError from "./Errors";
 import { getFormEvents } from "./Registry";
-import { FormEventTypes, FormTypeLabel, isComponentEventDetail } from "./Types";
+import { ErrorPolicy, formatComponentTarget, FormEventTypes, FormTypeLabel, InstancePolicy, isComponentEventDetail } from "./Types";
+
+
+const boundInstances = new WeakMap<object, Map<Function, FormEventHandlerBase>>();
 
 
 /**
@@ -17,6 +23,9 @@ import { FormEventTypes, FormTypeLabel, isComponentEventDetail } from "./Types";
  * 
  * The extended class must be instanciate during the onLoad event of the form.
  * 
+ * Instantiating the same class again on the same form context (save and new, record navigation, quick create re-open)
+ * is handled according to {@link FormEventHandlerBase.instancePolicy}.
+ *
  *
  * @example
  * ```ts
@@ -33,18 +42,202 @@ import { FormEventTypes, FormTypeLabel, isComponentEventDetail } from "./Types";
  */
 export abstract class FormEventHandlerBase {
 
+    /**
+     * Behavior applied when an instance of the class is already bound to the form context.
+     *
+     * @remarks
+     * Override it in the derived class, for example `static override instancePolicy = InstancePolicy.Reuse;`.
+     * `InstancePolicy.Reuse` is applied by {@link FormEventHandlerBase.getOrCreate} and `registerFormScript`: the constructor cannot
+     * return the existing instance without running the field initializers of the derived class again on it, so `new` replaces it.
+     */
+    static instancePolicy: InstancePolicy = InstancePolicy.Replace;
+
+    /**
+     * Behavior applied by {@link FormEventHandlerBase.onHandlerError} when a decorated handler throws.
+     *
+     * @remarks
+     * Override it in the derived class, for example `static override errorPolicy = ErrorPolicy.PreventSave;`.
+     */
+    static errorPolicy: ErrorPolicy = ErrorPolicy.Log;
+
     private decoratorProfiling: { start?: number; end?: number } = {};
+    private boundFormContext?: object;
 
 
     constructor(executionContext: Xrm.Events.EventContext) {
+        const existingInstance = boundInstances.get(executionContext.getFormContext())?.get(this.constructor);
+
+        if (existingInstance) {
+            const instancePolicy = (this.constructor as typeof FormEventHandlerBase).instancePolicy;
+            logGroupedWarning(`[D365FormEventHandlerBase] ${this.constructor.name} - An instance is already bound to this form context, applying policy "${instancePolicy}".`);
+
+            switch (instancePolicy) {
+                case InstancePolicy.Throw:
+                    flushGroupedWarnings();
+                    throw new Error(`[D365FormEventHandlerBase] ${this.constructor.name} - An instance is already bound to this form context.`);
+                case InstancePolicy.Reuse:
+                    logGroupedWarning(`[D365FormEventHandlerBase] ${this.constructor.name} - "${instancePolicy}" requires ${this.constructor.name}.getOrCreate(executionContext), the existing instance is replaced.`);
+                    existingInstance.dispose();
+                    break;
+                case InstancePolicy.Replace:
+                    existingInstance.dispose();
+                    break;
+            }
+        }
+
+        this.attachFormEvents(executionContext);
+    }
+
+    /**
+     * Returns the instance of the class bound to the form context when its `instancePolicy` is `InstancePolicy.Reuse`,
+     * otherwise creates a new instance, the constructor applying the other policies.
+     *
+     * @example
+     * ```ts
+     * function onLoad(executionContext: Xrm.Events.EventContext) {
+     *      ContactFormHandler.getOrCreate(executionContext);
+     * }
+     * ```
+     */
+    static getOrCreate<T extends FormEventHandlerBase>(this: (new (executionContext: Xrm.Events.EventContext) => T) & Pick<typeof FormEventHandlerBase, "instancePolicy">, executionContext: Xrm.Events.EventContext): T {
+        const existingInstance = getBoundInstance(executionContext.getFormContext(), this);
+        if (existingInstance && this.instancePolicy === InstancePolicy.Reuse) return existingInstance;
+
+        return new this(executionContext);
+    }
+
+    /**
+     * Called by the dispatcher when a decorated handler throws.
+     *
+     * @remarks
+     * The default implementation applies the static `errorPolicy` of the class.
+     * Override it to route errors to your own telemetry or notification logic.
+     *
+     * @param error - The error thrown by the handler, wrapped with the class, method, event and component names.
+     */
+    public onHandlerError(error: FormEventHandlerError): void {
+        const errorPolicy = (this.constructor as typeof FormEventHandlerBase).errorPolicy;
+        if (errorPolicy === ErrorPolicy.Rethrow) throw error;
+
+        errorMessage(error.message, error.cause);
+        if (errorPolicy === ErrorPolicy.Log) return;
+
+        const formContext = error.executionContext?.getFormContext() ?? this.boundFormContext as Xrm.FormContext | undefined;
+        formContext?.ui.setFormNotification(error.message, "ERROR", this.getErrorNotificationId(error.functionName));
+
+        if (errorPolicy === ErrorPolicy.PreventSave && error.eventType === FormEventTypes.OnSave) {
+            (error.executionContext as Xrm.Events.SaveEventContext).getEventArgs().preventDefault();
+        }
+    }
+
+    /**
+     * Called by the dispatcher when a decorated handler runs successfully after having failed.
+     *
+     * @remarks
+     * The default implementation clears the form notification displayed by {@link FormEventHandlerBase.onHandlerError}
+     * for this handler, so that a transient failure does not stay displayed for the whole form session.
+     *
+     * @param functionName - The name of the decorated method.
+     */
+    public onHandlerRecovered(functionName: string, executionContext: Xrm.Events.EventContext | undefined): void {
+        const formContext = executionContext?.getFormContext() ?? this.boundFormContext as Xrm.FormContext | undefined;
+        formContext?.ui.clearFormNotification(this.getErrorNotificationId(functionName));
+    }
+
+    private getErrorNotificationId(functionName: string): string {
+        return `${this.constructor.name}.${functionName}`;
+    }
+
+    /**
+     * Removes every form event handler attached by this instance.
+     *
+     * @remarks
+     * Call this before instantiating a new handler on the same form (record navigation, form switch),
+     * otherwise the handlers of both instances are triggered.
+     */
+    public dispose(): void {
+        FormEventDispatcher.detach(this);
+        this.unbindFormContext();
+    }
+
+    /**
+     * Detaches the handlers of this instance and attaches them again against the given execution context.
+     *
+     * @remarks
+     * Useful after a form switch or a `formContext.data.refresh`, when controls have been recreated by Dynamics.
+     */
+    public reapply(executionContext: Xrm.Events.EventContext): void {
+        this.attachFormEvents(executionContext);
+    }
+
+    /**
+     * Starts recording every call of the decorated methods of this instance: method, event, component, duration and errors.
+     *
+     * @remarks
+     * Profiling is per instance, other instances of the class are not affected.
+     *
+     * @returns The profiler of the instance, exposing the query API (`slowest`, `callCounts`, `percentileByEvent`, `report`...).
+     */
+    public enableProfiling(options?: HandlerProfilerOptions): HandlerProfiler {
+        return DecoratorProfiler.enableFor(this, options);
+    }
+
+    /**
+     * Stops recording the calls of the decorated methods of this instance and drops the recorded invocations.
+     */
+    public disableProfiling(): void {
+        DecoratorProfiler.disableFor(this);
+    }
+
+    /**
+     * Starts recording the events delivered to this instance: event, component, changed attribute values, save mode and form type.
+     *
+     * @remarks
+     * Call it from the constructor to include the load events. Export the trace with `tracer.export()` and replay it
+     * against a fake form with `replayTrace` from `@sguez/d365-event-decorators/testing`.
+     *
+     * @returns The tracer of the instance.
+     */
+    public enableTracing(options?: EventTracerOptions): EventTracer {
+        if (!this.boundFormContext) throw new Error(`[D365FormEventHandlerBase] Cannot trace the events of the disposed ${this.constructor.name} instance.`);
+        return EventTracer.enableFor(this, this.boundFormContext as Xrm.FormContext, options);
+    }
+
+    /**
+     * Stops recording the events delivered to this instance and drops the trace.
+     */
+    public disableTracing(): void {
+        EventTracer.disableFor(this);
+    }
+
+    private attachFormEvents(executionContext: Xrm.Events.EventContext) {
         const formContext = Provider.from(executionContext);
         const formType = formContext.ui.getFormType();
 
+        this.unbindFormContext();
+        this.bindFormContext(executionContext.getFormContext());
+
         this.markFormEventStarted();
         FormEventDispatcher.apply(this, executionContext, formType);
         this.markFormEventApplied();
     }
 
+    private bindFormContext(formContext: object) {
+        const instances = boundInstances.get(formContext) ?? new Map<Function, FormEventHandlerBase>();
+        instances.set(this.constructor, this);
+        boundInstances.set(formContext, instances);
+        this.boundFormContext = formContext;
+    }
+    private unbindFormContext() {
+        if (!this.boundFormContext) return;
+
+        const instances = boundInstances.get(this.boundFormContext);
+        if (instances?.get(this.constructor) === this) {
+            instances.delete(this.constructor);
+        }
+        delete this.boundFormContext;
+    }
+
     private markFormEventStarted() {
         this.decoratorProfiling.start = performance.now();
     }
@@ -70,12 +263,21 @@ export abstract class FormEventHandlerBase {
             for (const detail of formEvents.events) {
                 let extras = "";
                 if (isComponentEventDetail(detail)) {
-                    extras = `[${detail.componentNames.join(", ")}]`;
+                    extras = `[${detail.componentNames.map(formatComponentTarget).join(", ")}]`;
                 }
                 const typeDesc = `@${FormEventTypes[detail.type]} `;
                 console.debug(`${typeDesc}${extras}`);
             }
             console.debug(`FormTypes: ${formEvents.formTypes?.map(formTypeValue => FormTypeLabel[formTypeValue]).join(", ") ?? "All"}`);
+            if (formEvents.filters?.length) {
+                console.debug(`Filters: ${formEvents.filters.map(filter => filter.name).join(", ")}`);
+            }
+            if (formEvents.modifiers?.length) {
+                console.debug(`Modifiers: ${formEvents.modifiers.map(modifier => modifier.type).join(", ")}`);
+            }
+            if (formEvents.priority !== undefined || formEvents.after?.length) {
+                console.debug(`Order: priority ${formEvents.priority ?? 0}${formEvents.after?.length ? `, after ${formEvents.after.join(", ")}` : ""}`);
+            }
             console.groupEnd();
         }
         console.groupEnd();
@@ -88,6 +290,7 @@ export abstract class FormEventHandlerBase {
      * Uses `console.debug` to output logs. These messages may be hidden in browser DevTools unless the logging level is set to "Verbose" or equivalent.
      *
      * This can be useful to identify performance bottlenecks related to decorator registration and application.
+     * When profiling is enabled with {@link FormEventHandlerBase.enableProfiling}, the statistics of the handler calls are logged as well.
      */
     public logDecoratorProfilingTimes(): void {
         console.debug(`[D365FormEventHandlerBase - Profiling] Event decorators from ${this.constructor.name} initialized in ${DecoratorProfiler.total()}ms`);
@@ -96,8 +299,17 @@ export abstract class FormEventHandlerBase {
             const duration = (this.decoratorProfiling.end - this.decoratorProfiling.start!).toFixed(2);
             console.debug(`[D365FormEventHandlerBase - Profiling] Decorator from ${this.constructor.name} attached to form event in ${duration}ms`);
         }
+
+        DecoratorProfiler.getProfiler(this)?.report();
     }
 
 }
 
+/**
+ * Returns the instance of the handler class currently bound to the form context, if any.
+ */
+export function getBoundInstance<T extends FormEventHandlerBase>(formContext: Xrm.FormContext, handlerClass: abstract new (executionContext: Xrm.Events.EventContext) => T): T | undefined {
+    return boundInstances.get(formContext)?.get(handlerClass) as T | undefined;
+}
+
 export default FormEventHandlerBase;
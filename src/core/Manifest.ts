@@ -0,0 +1,173 @@
+import { getCommands, getFormEvents } from "./Registry";
+import { CommandTypes, formatComponentTarget, FormEventTypes, FormTypeLabel, isAsyncEventDetail, isComponentEventDetail, ParameterTypes } from "./Types";
+
+
+/**
+ * Client API used by the dispatcher to attach each event type.
+ */
+export const FormEventApi: Record<FormEventTypes, string> = {
+    [FormEventTypes.OnLoad]: "formContext.ui.addOnLoad",
+    [FormEventTypes.OnDataLoad]: "formContext.data.addOnLoad",
+    [FormEventTypes.Loaded]: "formContext.ui.addLoaded",
+    [FormEventTypes.OnSave]: "formContext.data.entity.addOnSave",
+    [FormEventTypes.OnPostSave]: "formContext.data.entity.addOnPostSave",
+    [FormEventTypes.OnChange]: "attribute.addOnChange",
+    [FormEventTypes.OnLookupTagClick]: "lookupControl.addOnLookupTagClick",
+    [FormEventTypes.PreSearch]: "lookupControl.addPreSearch",
+    [FormEventTypes.OnTabStateChange]: "tab.addTabStateChange",
+    [FormEventTypes.OnTabExpand]: "tab.addTabStateChange",
+    [FormEventTypes.OnTabCollapse]: "tab.addTabStateChange",
+    [FormEventTypes.SubGridOnLoad]: "gridControl.addOnLoad",
+    [FormEventTypes.SubGridOnRecordSelect]: "gridControl.addOnRecordSelect",
+    [FormEventTypes.OnReadyStateComplete]: "iframeControl.addOnReadyStateComplete",
+    [FormEventTypes.OnProcessStatusChange]: "formContext.data.process.addOnProcessStatusChange",
+    [FormEventTypes.OnPreProcessStatusChange]: "formContext.data.process.addOnPreProcessStatusChange",
+    [FormEventTypes.OnPreStageChange]: "formContext.data.process.addOnPreStageChange",
+    [FormEventTypes.OnStageChange]: "formContext.data.process.addOnStageChange",
+    [FormEventTypes.OnStageSelected]: "formContext.data.process.addOnStageSelected",
+    [FormEventTypes.OnOutputChange]: "control.addOnOutputChange",
+    [FormEventTypes.OnResultOpened]: "kbSearchControl.addOnResultOpened",
+    [FormEventTypes.OnSelection]: "kbSearchControl.addOnSelection",
+    [FormEventTypes.PostSearch]: "kbSearchControl.addOnPostSearch",
+    [FormEventTypes.EditableGridOnRecordSelect]: "editableGrid OnRecordSelect (form designer)",
+    [FormEventTypes.EditableGridOnChange]: "editableGrid OnChange (form designer)",
+    [FormEventTypes.EditableGridOnSave]: "editableGrid OnSave (form designer)",
+};
+
+
+export type EventManifest = {
+    type: FormEventTypes;
+    /** Component names, selectors are described by a label such as `ControlsOf(parentaccountid)`. */
+    componentNames: string[];
+    api: string;
+    async: boolean;
+}
+
+export type MethodManifest = {
+    functionName: string;
+    /** Labels of the form types the handler is restricted to, empty when it applies to every form type. */
+    formTypes: string[];
+    filters: string[];
+    modifiers: string[];
+    priority: number;
+    after: string[];
+    /** Parameters decorated with `D365Event.Inject`, by position. */
+    parameters: { index: number; type: ParameterTypes; }[];
+    /** Label of the `D365Validate` decorator, such as `Validate.Column(creditlimit)`. */
+    validation: string | undefined;
+    /** Labels of the `D365Rule` decorators, such as `Rule.Visible(section_company)`. */
+    rules: string[];
+    /** Label of the `D365Compute` decorator, such as `Compute(totalamount)`. */
+    compute: string | undefined;
+    events: EventManifest[];
+}
+
+export type HandlerManifest = {
+    className: string;
+    methods: MethodManifest[];
+}
+
+export type CommandFunctionManifest = {
+    name: string;
+    /** Name to reference in the command definition, namespace included. */
+    fullName: string;
+    type: CommandTypes;
+    functionName: string;
+}
+
+export type CommandManifest = {
+    className: string;
+    namespace: string;
+    commands: CommandFunctionManifest[];
+}
+
+
+/**
+ * Describes every decorated method of a handler class, including the ones inherited from its base classes.
+ *
+ * @example
+ * ```ts
+ * console.log(JSON.stringify(describeHandlers(AccountFormHandler), null, 2));
+ * ```
+ */
+export function describeHandlers(handlerClass: Function): HandlerManifest {
+    return {
+        className: handlerClass.name,
+        methods: getFormEvents(handlerClass).map(formEvent => ({
+            functionName: formEvent.functionName,
+            formTypes: (formEvent.formTypes ?? []).map(formType => FormTypeLabel[formType] ?? String(formType)),
+            filters: (formEvent.filters ?? []).map(filter => filter.name),
+            modifiers: (formEvent.modifiers ?? []).map(modifier => "wait" in modifier ? `${modifier.type}(${modifier.wait})` : modifier.type),
+            priority: formEvent.priority ?? 0,
+            after: formEvent.after ?? [],
+            parameters: [...formEvent.parameters ?? []].sort((a, b) => a.index - b.index).map(({ index, type }) => ({ index, type })),
+            validation: formEvent.validation && `Validate.${formEvent.validation.type}(${formEvent.validation.attributeNames.join(", ")})`,
+            rules: (formEvent.rules ?? []).map(rule => `Rule.${rule.type}(${rule.targetName})`),
+            compute: formEvent.compute && `Compute(${formEvent.compute.attributeName}${formEvent.compute.fireOnChange ? ", fireOnChange" : ""})`,
+            events: formEvent.events.map(eventDetail => ({
+                type: eventDetail.type,
+                componentNames: isComponentEventDetail(eventDetail) ? eventDetail.componentNames.map(formatComponentTarget) : [],
+                api: FormEventApi[eventDetail.type],
+                async: isAsyncEventDetail(eventDetail),
+            })),
+        })),
+    };
+}
+
+/**
+ * Describes every handler class exported by a module, that is every exported function with decorated methods.
+ */
+export function describeModule(moduleExports: Record<string, unknown>): HandlerManifest[] {
+    const handlerClasses = new Set<Function>();
+    for (const exported of Object.values(moduleExports)) {
+        if (typeof exported === "function" && getFormEvents(exported).length > 0) {
+            handlerClasses.add(exported);
+        }
+    }
+    return [...handlerClasses].map(handlerClass => describeHandlers(handlerClass));
+}
+
+/**
+ * Describes the command bar functions of a class, as exposed under the given namespace by `registerCommands`.
+ */
+export function describeCommands(commandClass: Function, namespace: string): CommandManifest {
+    return {
+        className: commandClass.name,
+        namespace,
+        commands: getCommands(commandClass).map(command => ({
+            name: command.name,
+            fullName: `${namespace}.${command.name}`,
+            type: command.type,
+            functionName: command.functionName,
+        })),
+    };
+}
+
+/**
+ * Renders handler manifests as Markdown tables, one table per class.
+ */
+export function manifestToMarkdown(manifests: HandlerManifest[]): string {
+    const lines: string[] = [];
+
+    for (const manifest of manifests) {
+        lines.push(`## ${manifest.className}`, "");
+        lines.push("| Method | Event | Components | Form types | Conditions | Xrm API |");
+        lines.push("| --- | --- | --- | --- | --- | --- |");
+
+        for (const method of manifest.methods) {
+            const conditions = [...method.validation ? [method.validation] : [], ...method.rules, ...method.compute ? [method.compute] : [], ...method.filters, ...method.modifiers, ...method.after.map(name => `After(${name})`)];
+            if (method.priority !== 0) conditions.push(`Priority(${method.priority})`);
+
+            for (const event of method.events) {
+                lines.push(`| ${escapeCell(method.functionName)} | ${event.type}${event.async ? " (async)" : ""} | ${escapeCell(event.componentNames.join(", ") || "-")} | ${escapeCell(method.formTypes.join(", ") || "All")} | ${escapeCell(conditions.join(", ") || "-")} | \`${event.api}\` |`);
+            }
+        }
+        lines.push("");
+    }
+
+    return lines.join("\n");
+}
+
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, "\\|");
+}
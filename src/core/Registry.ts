@@ -1,55 +1,194 @@
 import { DecoratorProfiler } from "./DecoratorProfiler";
-import { type EventDetail, type FormEventDetails, isComponentEventDetail } from "./Types";
+import { type CommandDetails, type ComputeDetails, type EventDetail, type FormEventDetails, type HandlerFilter, type HandlerModifier, type HandlerParameter, isComponentEventDetail, type RuleDetails, type ValidationDetails } from "./Types";
 
 
 const eventRegistry = new Map<Function, FormEventDetails[]>();
+const excludedRegistry = new Map<Function, string[]>();
+const commandRegistry = new Map<Function, CommandDetails[]>();
 // const eventRegistry = new WeakMap<Function, FormEvent[]>();
 
 
+/**
+ * Returns the events declared on the given constructor merged with the ones inherited from its base classes.
+ *
+ * @remarks
+ * A method redeclared with decorators in a subclass overrides the inherited declaration with the same name.
+ * Inherited methods listed with `D365Event.Inheritance.Exclude` are removed from the subclass and its descendants.
+ */
 export function getFormEvents(constructor: Function): FormEventDetails[] {
-    const events: FormEventDetails[] = eventRegistry.get(constructor) || [];
-    (events as any).log = () => console.table(events.map(e => ({ fn: e.functionName, types: e.formTypes, events: e.events.map(ev => ev.type).join(', ') })));
-    return events;
+    const mergedEvents = new Map<string, FormEventDetails>();
+
+    for (const classConstructor of getConstructorChain(constructor)) {
+        for (const excludedFunctionName of excludedRegistry.get(classConstructor) ?? []) {
+            mergedEvents.delete(excludedFunctionName);
+        }
+        for (const formEvent of getOwnFormEvents(classConstructor)) {
+            mergedEvents.set(formEvent.functionName, formEvent);
+        }
+    }
+
+    return [...mergedEvents.values()];
+}
+
+/**
+ * Returns only the events declared on the given constructor, without the inherited ones.
+ */
+export function getOwnFormEvents(constructor: Function): FormEventDetails[] {
+    return eventRegistry.get(constructor) || [];
 }
 
 export function upsertFunctionEvent<T extends EventDetail>(constructor: Function, functionName: string, eventDetail?: T, formTypes?: XrmEnum.FormType[]): void {
     const start = performance.now();
 
-    const formEvents: FormEventDetails[] = getFormEvents(constructor);
-    let formEvent = formEvents.find(event => event.functionName === functionName);
+    const formEvent = getOrCreateFunctionEvent(constructor, functionName);
 
-    const formEventDetail: FormEventDetails = {
-        events: eventDetail ? [eventDetail] : [],
-        functionName,
-        formTypes
-    };
-
-    if (!formEvent) {
-        formEvents.push(formEventDetail);
-    }
-    else {
-        if (eventDetail) {
-            const existingEventForFunctionName = formEvent.events.find(e => e.type === eventDetail.type);
-            if (!existingEventForFunctionName) {
-                formEvent.events.push(eventDetail);
-            }
-            else if (isComponentEventDetail(existingEventForFunctionName) && isComponentEventDetail(eventDetail)) {
-                existingEventForFunctionName.componentNames = mergeUnique(existingEventForFunctionName.componentNames, eventDetail.componentNames);
-            }
+    if (eventDetail) {
+        const existingEventForFunctionName = formEvent.events.find(e => e.type === eventDetail.type);
+        if (!existingEventForFunctionName) {
+            formEvent.events.push(eventDetail);
         }
-        if (formTypes) {
-            formEvent.formTypes = mergeUnique(formEvent.formTypes ?? [], formTypes);
+        else if (isComponentEventDetail(existingEventForFunctionName) && isComponentEventDetail(eventDetail)) {
+            existingEventForFunctionName.componentNames = mergeUnique(existingEventForFunctionName.componentNames, eventDetail.componentNames);
         }
     }
+    if (formTypes) {
+        formEvent.formTypes = mergeUnique(formEvent.formTypes ?? [], formTypes);
+    }
 
-    eventRegistry.set(constructor, formEvents);
+    const end = performance.now();
+    DecoratorProfiler.record(end - start);
+}
+
+export function upsertFunctionFilter(constructor: Function, functionName: string, filter: HandlerFilter): void {
+    const start = performance.now();
+
+    const formEvent = getOrCreateFunctionEvent(constructor, functionName);
+    formEvent.filters = [...formEvent.filters ?? [], filter];
 
     const end = performance.now();
     DecoratorProfiler.record(end - start);
 }
 
-function mergeUnique<T>(existing: T[], incoming: T[]): T[] {
-    return [...existing, ...incoming.filter(i => !existing.includes(i))];
+export function upsertFunctionModifier(constructor: Function, functionName: string, modifier: HandlerModifier): void {
+    const start = performance.now();
+
+    const formEvent = getOrCreateFunctionEvent(constructor, functionName);
+    formEvent.modifiers = [...(formEvent.modifiers ?? []).filter(m => m.type !== modifier.type), modifier];
+
+    const end = performance.now();
+    DecoratorProfiler.record(end - start);
+}
+
+export function upsertFunctionParameter(constructor: Function, functionName: string, parameter: HandlerParameter): void {
+    const start = performance.now();
+
+    const formEvent = getOrCreateFunctionEvent(constructor, functionName);
+    formEvent.parameters = [...(formEvent.parameters ?? []).filter(p => p.index !== parameter.index), parameter];
+
+    const end = performance.now();
+    DecoratorProfiler.record(end - start);
+}
+
+export function upsertFunctionValidation(constructor: Function, functionName: string, validation: ValidationDetails): void {
+    updateFunctionEvent(constructor, functionName, formEvent => {
+        formEvent.validation = validation;
+    });
+}
+
+export function upsertFunctionRule(constructor: Function, functionName: string, rule: RuleDetails): void {
+    updateFunctionEvent(constructor, functionName, formEvent => {
+        formEvent.rules = [...(formEvent.rules ?? []).filter(r => r.type !== rule.type || r.targetName !== rule.targetName), rule];
+    });
+}
+
+export function upsertFunctionCompute(constructor: Function, functionName: string, compute: ComputeDetails): void {
+    updateFunctionEvent(constructor, functionName, formEvent => {
+        formEvent.compute = compute;
+    });
+}
+
+export function upsertFunctionOrder(constructor: Function, functionName: string, priority?: number, after?: string[]): void {
+    const start = performance.now();
+
+    const formEvent = getOrCreateFunctionEvent(constructor, functionName);
+    if (priority !== undefined) {
+        formEvent.priority = priority;
+    }
+    if (after) {
+        formEvent.after = mergeUnique(formEvent.after ?? [], after);
+    }
+
+    const end = performance.now();
+    DecoratorProfiler.record(end - start);
+}
+
+export function excludeInheritedFunctionEvents(constructor: Function, functionNames: string[]): void {
+    const excludedFunctionNames = excludedRegistry.get(constructor) ?? [];
+    excludedRegistry.set(constructor, mergeUnique(excludedFunctionNames, functionNames));
+}
+
+/**
+ * Returns the commands declared on the given constructor merged with the ones inherited from its base classes.
+ *
+ * @remarks
+ * A command name redeclared in a subclass overrides the inherited declaration.
+ */
+export function getCommands(constructor: Function): CommandDetails[] {
+    const mergedCommands = new Map<string, CommandDetails>();
+
+    for (const classConstructor of getConstructorChain(constructor)) {
+        for (const command of commandRegistry.get(classConstructor) ?? []) {
+            mergedCommands.set(command.name, command);
+        }
+    }
+
+    return [...mergedCommands.values()];
+}
+
+export function upsertFunctionCommand(constructor: Function, command: CommandDetails): void {
+    const start = performance.now();
+
+    const commands = commandRegistry.get(constructor) ?? [];
+    commandRegistry.set(constructor, [...commands.filter(c => c.name !== command.name), command]);
+
+    const end = performance.now();
+    DecoratorProfiler.record(end - start);
+}
+
+/**
+ * Applies the update to the registered details of the function, timed by the decorator profiler.
+ */
+function updateFunctionEvent(constructor: Function, functionName: string, update: (formEvent: FormEventDetails) => void): void {
+    const start = performance.now();
+    update(getOrCreateFunctionEvent(constructor, functionName));
+    DecoratorProfiler.record(performance.now() - start);
+}
+
+function getOrCreateFunctionEvent(constructor: Function, functionName: string): FormEventDetails {
+    const formEvents: FormEventDetails[] = getOwnFormEvents(constructor);
+    let formEvent = formEvents.find(event => event.functionName === functionName);
+
+    if (!formEvent) {
+        formEvent = { events: [], functionName, formTypes: undefined };
+        formEvents.push(formEvent);
+    }
+
+    eventRegistry.set(constructor, formEvents);
+    return formEvent;
 }
 
+function getConstructorChain(constructor: Function): Function[] {
+    const chain: Function[] = [];
+    let current: Function | null = constructor;
+
+    while (current && current !== Function.prototype) {
+        chain.unshift(current);
+        current = Object.getPrototypeOf(current);
+    }
+
+    return chain;
+}
 
+function mergeUnique<T>(existing: T[], incoming: T[]): T[] {
+    return [...existing, ...incoming.filter(i => !existing.includes(i))];
+}
@@ -0,0 +1,93 @@
+import { type ComponentEventType, type ComponentSelector, FormEventTypes, SelectorTypes } from "./Types";
+
+
+/**
+ * Kind of component an event is attached to, selectors resolve to names of this kind.
+ */
+export type ComponentScope = "attribute" | "tab" | "control";
+
+
+export function getComponentScope(eventType: ComponentEventType): ComponentScope {
+    switch (eventType) {
+        case FormEventTypes.OnChange:
+            return "attribute";
+        case FormEventTypes.OnTabStateChange:
+        case FormEventTypes.OnTabExpand:
+        case FormEventTypes.OnTabCollapse:
+            return "tab";
+        default:
+            return "control";
+    }
+}
+
+/**
+ * Returns the names of the attributes, tabs or controls of the form matched by the selector.
+ *
+ * @remarks
+ * Group selectors (tab, section, control type) select controls: an attribute matches when one of its controls does,
+ * a tab matches when it displays one of the selected controls.
+ */
+export function resolveSelector(formContext: Xrm.FormContext, selector: ComponentSelector, scope: ComponentScope): string[] {
+    if (selector.type === SelectorTypes.Pattern) {
+        const components: { getName(): string }[] = scope === "attribute" ? formContext.data.entity.attributes.get()
+            : scope === "tab" ? formContext.ui.tabs.get()
+            : formContext.ui.controls.get();
+        // search ignores the lastIndex of global patterns.
+        return components.map(component => component.getName()).filter(name => name.search(selector.pattern) >= 0);
+    }
+
+    if (scope === "attribute" && selector.type === SelectorTypes.AttributeType) {
+        return formContext.data.entity.attributes.get().filter(attribute => selector.attributeTypes.includes(attribute.getAttributeType())).map(attribute => attribute.getName());
+    }
+    if (scope === "attribute" && selector.type === SelectorTypes.AttributeControls) {
+        return formContext.getAttribute(selector.attributeName) ? [selector.attributeName] : [];
+    }
+    if (scope === "tab" && selector.type === SelectorTypes.Tab) {
+        return formContext.ui.tabs.get(selector.tabName) ? [selector.tabName] : [];
+    }
+
+    const controls = getSelectedControls(formContext, selector);
+    const controlNames = controls.map(control => control.getName());
+
+    switch (scope) {
+        case "control":
+            return unique(controlNames);
+        case "attribute":
+            return unique(controls.map(control => getBoundAttribute(control)?.getName()).filter(name => name !== undefined));
+        case "tab":
+            return formContext.ui.tabs.get()
+                .filter(tab => tab.sections.get().some(section => section.controls.get().some(control => controlNames.includes(control.getName()))))
+                .map(tab => tab.getName());
+    }
+}
+
+
+function getSelectedControls(formContext: Xrm.FormContext, selector: ComponentSelector): Xrm.Controls.Control[] {
+    switch (selector.type) {
+        case SelectorTypes.AttributeControls:
+            // The controls collection of the attribute includes the header, business process flow and duplicated controls.
+            return formContext.getAttribute(selector.attributeName)?.controls.get() ?? [];
+        case SelectorTypes.Pattern:
+            return formContext.ui.controls.get().filter(control => control.getName().search(selector.pattern) >= 0);
+        case SelectorTypes.Tab:
+            return formContext.ui.tabs.get(selector.tabName)?.sections.get().flatMap(section => section.controls.get()) ?? [];
+        case SelectorTypes.Section:
+            return formContext.ui.tabs.get(selector.tabName)?.sections.get(selector.sectionName)?.controls.get() ?? [];
+        case SelectorTypes.ControlType:
+            return formContext.ui.controls.get().filter(control => (selector.controlTypes as string[]).includes(control.getControlType()));
+        case SelectorTypes.AttributeType:
+            return formContext.ui.controls.get().filter(control => {
+                const attribute = getBoundAttribute(control);
+                return attribute !== undefined && selector.attributeTypes.includes(attribute.getAttributeType());
+            });
+    }
+}
+
+function getBoundAttribute(control: Xrm.Controls.Control): Xrm.Attributes.Attribute | undefined {
+    // Subgrids, web resources and iframes are not bound to an attribute.
+    return (control as Partial<Xrm.Controls.StandardControl>).getAttribute?.() ?? undefined;
+}
+
+function unique(names: string[]): string[] {
+    return [...new Set(names)];
+}
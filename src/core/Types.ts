@@ -32,6 +32,10 @@ export enum FormEventTypes {
     OnResultOpened = "OnResultOpened",
     OnSelection = "OnSelection",
     PostSearch = "PostSearch",
+
+    EditableGridOnRecordSelect = "EditableGridOnRecordSelect",
+    EditableGridOnChange = "EditableGridOnChange",
+    EditableGridOnSave = "EditableGridOnSave",
 }
 
 export type GlobalEventType =
@@ -48,6 +52,9 @@ export type GlobalEventType =
     | FormEventTypes.OnStageChange
     | FormEventTypes.OnStageSelected
 
+    | FormEventTypes.EditableGridOnRecordSelect
+    | FormEventTypes.EditableGridOnSave
+
 
 export type ComponentEventType =
     | FormEventTypes.OnChange
@@ -70,26 +77,302 @@ export type ComponentEventType =
     | FormEventTypes.OnSelection
     | FormEventTypes.PostSearch
 
+    | FormEventTypes.EditableGridOnChange
+
+
+/**
+ * Events of an editable grid, registered on the grid in the form designer rather than attached through the Client API.
+ */
+export type EditableGridEventType =
+    | FormEventTypes.EditableGridOnRecordSelect
+    | FormEventTypes.EditableGridOnChange
+    | FormEventTypes.EditableGridOnSave
+
+
+export type AsyncEventOptions = {
+    /**
+     * Maximum time to wait for the promise returned by the handler, in milliseconds.
+     * @defaultValue 10000
+     */
+    timeout?: number;
+}
+
+/**
+ * Options of the `D365Event.Form.OnSave` decorator.
+ */
+export type SaveEventOptions = {
+    /** Runs the handler only for the given save modes. */
+    saveModes?: XrmEnum.SaveMode[];
+    /** Waits for the promise returned by the handler, within the given timeout. */
+    async?: AsyncEventOptions;
+}
 
 type GlobalEventDetail = {
     type: GlobalEventType;
+    async?: AsyncEventOptions | undefined;
 }
 type ComponentEventDetail = {
     type: ComponentEventType;
-    componentNames: string[];
+    /** Component names, and selectors expanded by the dispatcher to the matching components of the form. */
+    componentNames: ComponentTarget[];
 }
 
 
+export enum SelectorTypes {
+    /** Every control bound to an attribute: body, header, business process flow and duplicated controls. */
+    AttributeControls = "AttributeControls",
+    /** Every component whose name matches a regular expression. */
+    Pattern = "Pattern",
+    /** Every component displayed in a tab. */
+    Tab = "Tab",
+    /** Every component displayed in a section. */
+    Section = "Section",
+    /** Every control of the given types, or attribute bound to one. */
+    ControlType = "ControlType",
+    /** Every attribute of the given types, or control bound to one. */
+    AttributeType = "AttributeType",
+}
+
+export type ComponentSelector =
+    | { type: SelectorTypes.AttributeControls; attributeName: string; }
+    | { type: SelectorTypes.Pattern; pattern: RegExp; }
+    | { type: SelectorTypes.Tab; tabName: string; }
+    | { type: SelectorTypes.Section; tabName: string; sectionName: string; }
+    | { type: SelectorTypes.ControlType; controlTypes: Xrm.Controls.ControlType[]; }
+    | { type: SelectorTypes.AttributeType; attributeTypes: Xrm.Attributes.AttributeType[]; }
+
+/**
+ * Name of a component, or a selector matching several components.
+ */
+export type ComponentTarget = string | ComponentSelector;
+
+
 export type EventDetail = GlobalEventDetail | ComponentEventDetail;
 
 
+export enum ModifierTypes {
+    Debounce = "Debounce",
+    Throttle = "Throttle",
+    Once = "Once",
+    OncePerRecord = "OncePerRecord",
+}
+
+export type HandlerModifier =
+    | { type: ModifierTypes.Debounce; wait: number; }
+    | { type: ModifierTypes.Throttle; wait: number; }
+    | { type: ModifierTypes.Once; }
+    | { type: ModifierTypes.OncePerRecord; }
+
+
+export type HandlerFilter = {
+    /** Label of the filter, used in logs. */
+    name: string;
+    /** `false` when the filter only depends on static context and is evaluated once when handlers are attached. */
+    runtime: boolean;
+    /**
+     * @param valueChange - For the OnChange event, the previous and current values of the attribute triggering it.
+     */
+    predicate: (formContext: Xrm.FormContext, executionContext: Xrm.Events.EventContext | undefined, valueChange?: ValueChange) => boolean;
+}
+
+/**
+ * Value of an attribute before and after its OnChange event.
+ *
+ * @remarks
+ * `previous` is the value known by the dispatcher when the previous OnChange event of the attribute fired,
+ * or when the form was loaded, its data reloaded or saved.
+ */
+export type ValueChange<T = unknown> = {
+    previous: T | null;
+    current: T | null;
+}
+
+
+/**
+ * Values the dispatcher passes to the parameters decorated with `D365Event.Inject`.
+ */
+export enum ParameterTypes {
+    /** The raw execution context, undefined for the Loaded event. */
+    ExecutionContext = "ExecutionContext",
+    /** The wrapped `FormContext` from `@sguez/d365-form-helpers`, the row context for editable grid events. */
+    FormContext = "FormContext",
+    /** The attribute, control or tab triggering the event. */
+    EventSource = "EventSource",
+    /** The value of the attribute triggering the event, or of the attribute bound to the control triggering it. */
+    Value = "Value",
+    /** The name of the attribute, control or tab triggering the event. */
+    ComponentName = "ComponentName",
+    /** The save mode, for the OnSave event. */
+    SaveMode = "SaveMode",
+    /** The event arguments, for the events providing them (OnSave, OnPostSave, OnLookupTagClick...). */
+    EventArgs = "EventArgs",
+    /** The previous and current values of the attribute triggering the OnChange event, as a {@link ValueChange}. */
+    ValueChange = "ValueChange",
+    /** The attributes modified since the form was loaded, its data reloaded or saved, as {@link DirtyAttribute} items. */
+    DirtyAttributes = "DirtyAttributes",
+}
+
+/**
+ * Attribute modified since the form was loaded, its data reloaded or saved.
+ */
+export type DirtyAttribute = {
+    name: string;
+    /** Value when the form was loaded, its data reloaded or saved. */
+    original: unknown;
+    current: unknown;
+}
+
+export type HandlerParameter = {
+    index: number;
+    type: ParameterTypes;
+}
+
+
+/**
+ * Kind of validator declared with `D365Validate` decorators.
+ */
+export enum ValidationTypes {
+    /** Validates attributes on their OnChange event and on save, the message is displayed on their controls. */
+    Column = "Column",
+    /** Validates the record on save, the message is displayed in the form notification summary. */
+    Form = "Form",
+}
+
+export type ValidationDetails = {
+    type: ValidationTypes;
+    /** Attributes whose controls display the message, empty for form validators. */
+    attributeNames: string[];
+}
+
+
+/**
+ * State of a form component computed by a `D365Rule` predicate.
+ */
+export enum RuleTypes {
+    /** Shows the controls, tab or section when the predicate is true, hides them otherwise. */
+    Visible = "Visible",
+    /** Makes the attribute required when the predicate is true, restores the level of the form designer otherwise. */
+    Required = "Required",
+    /** Disables the controls when the predicate is true, enables them otherwise. */
+    Disabled = "Disabled",
+}
+
+export type RuleDetails = {
+    type: RuleTypes;
+    /** Attribute, control, tab or section the rule applies to. */
+    targetName: string;
+    /** Attributes whose OnChange event evaluates the rule again. */
+    dependencies: string[];
+}
+
+
+/**
+ * Options of the `D365Compute` decorator.
+ */
+export type ComputeOptions = {
+    /**
+     * Fires the OnChange event of the computed attribute after writing its value, running its own handlers and computed attributes.
+     * @defaultValue false
+     */
+    fireOnChange?: boolean;
+}
+
+export type ComputeDetails = {
+    /** Attribute receiving the value returned by the method. */
+    attributeName: string;
+    /** Attributes whose OnChange event computes the value again. */
+    dependencies: string[];
+    fireOnChange: boolean;
+}
+
+
 export type FormEventDetails = {
     functionName: string;
     formTypes?: XrmEnum.FormType[] | undefined;
+    filters?: HandlerFilter[] | undefined;
+    modifiers?: HandlerModifier[] | undefined;
+    parameters?: HandlerParameter[] | undefined;
+    priority?: number | undefined;
+    after?: string[] | undefined;
+    validation?: ValidationDetails | undefined;
+    rules?: RuleDetails[] | undefined;
+    compute?: ComputeDetails | undefined;
     events: EventDetail[];
 }
 
 
+/**
+ * Behavior applied when a handler class is instantiated on a form context already bound to an instance of the same class.
+ */
+export enum InstancePolicy {
+    /** The existing instance is returned by `getOrCreate` and `registerFormScript`, its handlers are kept. The constructor replaces it. */
+    Reuse = "Reuse",
+    /** The handlers of the existing instance are detached before the new instance attaches its own. */
+    Replace = "Replace",
+    /** An error is thrown. */
+    Throw = "Throw",
+}
+
+
+/**
+ * Behavior applied by the default `onHandlerError` hook when a decorated handler throws.
+ */
+export enum ErrorPolicy {
+    /** The error is thrown again, Dynamics displays its script error dialog. */
+    Rethrow = "Rethrow",
+    /** The error is logged to the console. */
+    Log = "Log",
+    /** The error is logged and displayed as a form notification. */
+    Notify = "Notify",
+    /** The error is logged, displayed as a form notification and, for OnSave handlers, the save is cancelled. */
+    PreventSave = "PreventSave",
+}
+
+
+export type FormEventRegistration = {
+    functionName: string;
+    eventType: FormEventTypes;
+    target: unknown;
+    handler: Xrm.Events.ContextSensitiveHandler;
+    detach: () => void;
+}
+
+
+/**
+ * Kind of command bar function exposed by `D365Command` decorators.
+ */
+export enum CommandTypes {
+    EnableRule = "EnableRule",
+    DisplayRule = "DisplayRule",
+    Action = "Action",
+}
+
+export type CommandDetails = {
+    /** Name of the function exposed in the global namespace. */
+    name: string;
+    type: CommandTypes;
+    functionName: string;
+}
+
+
+/**
+ * Names of the components of a form, used to type the decorators returned by `D365Event.for`.
+ *
+ * @remarks
+ * Usually generated from the form XML or the entity metadata with the `codegen` command, each member being a union of string literals.
+ */
+export type FormComponentNames = {
+    attributes: string;
+    /** Every control of the form, header and business process flow controls included. */
+    controls: string;
+    tabs: string;
+    lookups: string;
+    subgrids: string;
+    /** IFrame and web resource controls. */
+    iframes: string;
+}
+
+
 // export function CheckEventDetailType<T extends FormEventTypes>(eventType: T) {
 //     return function (eventDetail: EventDetail): eventDetail is Extract<EventDetail, { type: T; }> {
 //         return eventDetail.type === eventType;
@@ -103,10 +386,34 @@ export function isMatchingComponentEvent(
     return eventDetail.type === type && isComponentEventDetail(eventDetail);
 }
 
+export function isAsyncEventDetail(eventDetail: EventDetail): eventDetail is GlobalEventDetail & { async: AsyncEventOptions } {
+    return 'async' in eventDetail && eventDetail.async !== undefined;
+}
+
 export function isComponentEventDetail(eventDetail: EventDetail): eventDetail is ComponentEventDetail {
     return 'componentNames' in eventDetail;
 }
 
+export function isComponentSelector(componentTarget: ComponentTarget): componentTarget is ComponentSelector {
+    return typeof componentTarget !== "string";
+}
+
+/**
+ * Returns the component name, or a label describing the selector, used in logs and manifests.
+ */
+export function formatComponentTarget(componentTarget: ComponentTarget): string {
+    if (!isComponentSelector(componentTarget)) return componentTarget;
+
+    switch (componentTarget.type) {
+        case SelectorTypes.AttributeControls: return `ControlsOf(${componentTarget.attributeName})`;
+        case SelectorTypes.Pattern: return `Matching(${componentTarget.pattern})`;
+        case SelectorTypes.Tab: return `InTab(${componentTarget.tabName})`;
+        case SelectorTypes.Section: return `InSection(${componentTarget.tabName}, ${componentTarget.sectionName})`;
+        case SelectorTypes.ControlType: return `OfControlType(${componentTarget.controlTypes.join(", ")})`;
+        case SelectorTypes.AttributeType: return `OfAttributeType(${componentTarget.attributeTypes.join(", ")})`;
+    }
+}
+
 
 
 
@@ -1,6 +1,9 @@
 
+export * from './Commands'
 export * from './Decorators'
+export * from './FormScripts'
 // export * from './Dispatcher'
 export * from './HandlerBase'
+export * from './GridHandlerBase'
 // export * from './Registry'
 // export * from './Types'
\ No newline at end of file
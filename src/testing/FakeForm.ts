@@ -0,0 +1,552 @@
+export type FakeAttributeOptions = {
+    name: string;
+    /** @defaultValue "string" */
+    type?: Xrm.Attributes.AttributeType;
+    value?: unknown;
+    requiredLevel?: Xrm.Attributes.RequirementLevel;
+    /**
+     * Names of the controls bound to the attribute.
+     * @defaultValue the attribute name
+     */
+    controls?: string[];
+}
+
+export type FakeControlOptions = {
+    name: string;
+    /** @defaultValue "standard" */
+    type?: Xrm.Controls.ControlType | "kbsearch";
+    attributeName?: string;
+}
+
+export type FakeTabOptions = {
+    name: string;
+    /** @defaultValue "expanded" */
+    displayState?: Xrm.DisplayState;
+    sections?: {
+        name: string;
+        /** Names of the controls displayed in the section. */
+        controls?: string[];
+    }[];
+}
+
+export type FakeProcessOptions = {
+    id?: string;
+    name?: string;
+    stages: { id: string; name: string; }[];
+    /** @defaultValue the id of the first stage */
+    activeStageId?: string;
+}
+
+export type FakeFormOptions = {
+    /** @defaultValue "account" */
+    entityName?: string;
+    /** @defaultValue "" (new record) */
+    entityId?: string;
+    /** @defaultValue XrmEnum.FormType.Update */
+    formType?: XrmEnum.FormType;
+    attributes?: FakeAttributeOptions[];
+    /** Controls not bound to an attribute (subgrids, web resources, PCF, knowledge base search...). */
+    controls?: FakeControlOptions[];
+    /** Names of the subgrid controls. */
+    subgrids?: string[];
+    tabs?: FakeTabOptions[];
+    process?: FakeProcessOptions;
+}
+
+
+type Handler = (...args: any[]) => unknown;
+
+/**
+ * Ordered list of handlers for one event, mimicking the `add*`/`remove*` Client API pairs.
+ */
+export class FakeEventHandlers {
+    private handlers: Handler[] = [];
+
+    add(handler: Handler) {
+        if (!this.handlers.includes(handler)) this.handlers.push(handler);
+    }
+    remove(handler: Handler) {
+        this.handlers = this.handlers.filter(h => h !== handler);
+    }
+    fire(...args: any[]): unknown[] {
+        return [...this.handlers].map(handler => handler(...args));
+    }
+    get count(): number {
+        return this.handlers.length;
+    }
+}
+
+/**
+ * Minimal implementation of `Xrm.Collection.ItemCollection`.
+ */
+export class FakeCollection<T extends { getName(): string }> {
+    constructor(private readonly items: T[] = []) { }
+
+    get(): T[];
+    get(item: string | number): T | null;
+    get(predicate: (item: T, index: number) => boolean): T[];
+    get(arg?: string | number | ((item: T, index: number) => boolean)): T[] | T | null {
+        if (arg === undefined) return [...this.items];
+        if (typeof arg === "string") return this.items.find(item => item.getName() === arg) ?? null;
+        if (typeof arg === "number") return this.items[arg] ?? null;
+        return this.items.filter(arg);
+    }
+    forEach(delegate: (item: T, index: number) => void) {
+        this.items.forEach(delegate);
+    }
+    getLength(): number {
+        return this.items.length;
+    }
+    push(item: T) {
+        this.items.push(item);
+    }
+}
+
+
+export class FakeAttribute {
+    readonly controls = new FakeCollection<FakeControl>();
+    readonly onChange = new FakeEventHandlers();
+
+    private value: unknown;
+    private initialValue: unknown;
+    private isDirty = false;
+    private requiredLevel: Xrm.Attributes.RequirementLevel;
+    private submitMode: Xrm.SubmitMode = "dirty";
+
+    constructor(private readonly form: FakeFormContext, private readonly name: string, private readonly type: Xrm.Attributes.AttributeType, value: unknown, requiredLevel: Xrm.Attributes.RequirementLevel) {
+        this.value = value ?? null;
+        this.initialValue = this.value;
+        this.requiredLevel = requiredLevel;
+    }
+
+    getName() { return this.name; }
+    getAttributeType() { return this.type; }
+    getFormat() { return null; }
+    getParent() { return this.form.data.entity; }
+    getValue(): any { return this.value; }
+    setValue(value: unknown) {
+        this.value = value ?? null;
+        this.isDirty = this.value !== this.initialValue;
+    }
+    getInitialValue(): any { return this.initialValue; }
+    getIsDirty() { return this.isDirty; }
+    getRequiredLevel() { return this.requiredLevel; }
+    setRequiredLevel(requiredLevel: Xrm.Attributes.RequirementLevel) { this.requiredLevel = requiredLevel; }
+    getSubmitMode() { return this.submitMode; }
+    setSubmitMode(submitMode: Xrm.SubmitMode) { this.submitMode = submitMode; }
+    getUserPrivilege() { return { canCreate: true, canRead: true, canUpdate: true }; }
+    isValid() { return true; }
+
+    addOnChange(handler: Handler) { this.onChange.add(handler); }
+    removeOnChange(handler: Handler) { this.onChange.remove(handler); }
+    fireOnChange() { this.onChange.fire(this.form.createExecutionContext(this)); }
+
+    /** Marks the current value as saved. */
+    commit() {
+        this.initialValue = this.value;
+        this.isDirty = false;
+    }
+}
+
+
+export class FakeControl {
+    readonly events = {
+        preSearch: new FakeEventHandlers(),
+        lookupTagClick: new FakeEventHandlers(),
+        gridLoad: new FakeEventHandlers(),
+        gridRecordSelect: new FakeEventHandlers(),
+        readyStateComplete: new FakeEventHandlers(),
+        outputChange: new FakeEventHandlers(),
+        resultOpened: new FakeEventHandlers(),
+        selection: new FakeEventHandlers(),
+        postSearch: new FakeEventHandlers(),
+    };
+    readonly notifications = new Map<string, string>();
+    parent: FakeSection | null = null;
+
+    private visible = true;
+    private disabled = false;
+    private label: string;
+
+    constructor(private readonly form: FakeFormContext, private readonly name: string, private readonly type: Xrm.Controls.ControlType | "kbsearch", private readonly attribute: FakeAttribute | null) {
+        this.label = name;
+    }
+
+    getName() { return this.name; }
+    getControlType() { return this.type; }
+    getAttribute() { return this.attribute; }
+    getParent() { return this.parent; }
+    getVisible() { return this.visible; }
+    setVisible(visible: boolean) { this.visible = visible; }
+    getDisabled() { return this.disabled; }
+    setDisabled(disabled: boolean) { this.disabled = disabled; }
+    getLabel() { return this.label; }
+    setLabel(label: string) { this.label = label; }
+    setFocus() { }
+    setNotification(message: string, uniqueId = "") {
+        this.notifications.set(uniqueId, message);
+        return true;
+    }
+    clearNotification(uniqueId = "") {
+        return this.notifications.delete(uniqueId);
+    }
+
+    // Lookup
+    addPreSearch(handler: Handler) { this.events.preSearch.add(handler); }
+    removePreSearch(handler: Handler) { this.events.preSearch.remove(handler); }
+    addOnLookupTagClick(handler: Handler) { this.events.lookupTagClick.add(handler); }
+    removeOnLookupTagClick(handler: Handler) { this.events.lookupTagClick.remove(handler); }
+    addCustomFilter() { }
+    addCustomView() { }
+
+    // SubGrid
+    addOnLoad(handler: Handler) { this.events.gridLoad.add(handler); }
+    removeOnLoad(handler: Handler) { this.events.gridLoad.remove(handler); }
+    addOnRecordSelect(handler: Handler) { this.events.gridRecordSelect.add(handler); }
+    removeOnRecordSelect(handler: Handler) { this.events.gridRecordSelect.remove(handler); }
+    refresh() { this.events.gridLoad.fire(this.form.createExecutionContext(this)); }
+    getGrid() { return { getRows: () => new FakeCollection(), getSelectedRows: () => new FakeCollection(), getTotalRecordCount: () => 0 }; }
+    getEntityName() { return ""; }
+
+    // IFrame
+    addOnReadyStateComplete(handler: Handler) { this.events.readyStateComplete.add(handler); }
+    removeOnReadyStateComplete(handler: Handler) { this.events.readyStateComplete.remove(handler); }
+    getContentWindow() { return Promise.resolve({}); }
+    getSrc() { return ""; }
+    setSrc() { }
+
+    // PCF
+    addOnOutputChange(handler: Handler) { this.events.outputChange.add(handler); }
+    removeOnOutputChange(handler: Handler) { this.events.outputChange.remove(handler); }
+    getOutputs() { return {}; }
+
+    // Knowledge base search
+    addOnResultOpened(handler: Handler) { this.events.resultOpened.add(handler); }
+    removeOnResultOpened(handler: Handler) { this.events.resultOpened.remove(handler); }
+    addOnSelection(handler: Handler) { this.events.selection.add(handler); }
+    removeOnSelection(handler: Handler) { this.events.selection.remove(handler); }
+    addOnPostSearch(handler: Handler) { this.events.postSearch.add(handler); }
+    removeOnPostSearch(handler: Handler) { this.events.postSearch.remove(handler); }
+    getSearchQuery() { return ""; }
+    getSelectedResults() { return null; }
+    getTotalResultCount() { return 0; }
+}
+
+
+export class FakeSection {
+    readonly controls = new FakeCollection<FakeControl>();
+    private visible = true;
+
+    constructor(private readonly tab: FakeTab, private readonly name: string) { }
+
+    getName() { return this.name; }
+    getParent() { return this.tab; }
+    getVisible() { return this.visible; }
+    setVisible(visible: boolean) { this.visible = visible; }
+    getLabel() { return this.name; }
+}
+
+
+export class FakeTab {
+    readonly sections = new FakeCollection<FakeSection>();
+    readonly onStateChange = new FakeEventHandlers();
+    private visible = true;
+
+    constructor(private readonly form: FakeFormContext, private readonly name: string, private displayState: Xrm.DisplayState) { }
+
+    getName() { return this.name; }
+    getParent() { return this.form.ui; }
+    getVisible() { return this.visible; }
+    setVisible(visible: boolean) { this.visible = visible; }
+    getLabel() { return this.name; }
+    setFocus() { }
+    getDisplayState() { return this.displayState; }
+    /** Changes the display state and fires TabStateChange, as Dynamics does. */
+    setDisplayState(displayState: Xrm.DisplayState) {
+        if (displayState === this.displayState) return;
+        this.displayState = displayState;
+        this.onStateChange.fire(this.form.createExecutionContext(this));
+    }
+    addTabStateChange(handler: Handler) { this.onStateChange.add(handler); }
+    removeTabStateChange(handler: Handler) { this.onStateChange.remove(handler); }
+}
+
+
+export class FakeStage {
+    constructor(private readonly id: string, private readonly name: string) { }
+
+    getId() { return this.id; }
+    getName() { return this.name; }
+    getStatus() { return "active"; }
+    getSteps() { return new FakeCollection(); }
+}
+
+
+export class FakeProcess {
+    readonly events = {
+        processStatusChange: new FakeEventHandlers(),
+        preProcessStatusChange: new FakeEventHandlers(),
+        preStageChange: new FakeEventHandlers(),
+        stageChange: new FakeEventHandlers(),
+        stageSelected: new FakeEventHandlers(),
+    };
+    private readonly stages: FakeStage[];
+    private activeStage: FakeStage | null;
+    private status: Xrm.ProcessFlow.ProcessStatus = "active";
+
+    constructor(private readonly form: FakeFormContext, private readonly options: FakeProcessOptions | undefined) {
+        this.stages = (options?.stages ?? []).map(stage => new FakeStage(stage.id, stage.name));
+        this.activeStage = this.stages.find(stage => stage.getId() === options?.activeStageId) ?? this.stages[0] ?? null;
+    }
+
+    getActiveProcess() {
+        return this.options ? { getId: () => this.options?.id ?? "", getName: () => this.options?.name ?? "", getStages: () => new FakeCollection(this.stages) } : null;
+    }
+    getActiveStage() { return this.activeStage; }
+    getSelectedStage() { return this.activeStage; }
+    getStatus() { return this.status; }
+    setStatus(status: Xrm.ProcessFlow.ProcessStatus) {
+        this.events.preProcessStatusChange.fire(this.form.createExecutionContext(this));
+        this.status = status;
+        this.events.processStatusChange.fire(this.form.createExecutionContext(this));
+    }
+    setActiveStage(stageId: string) {
+        const stage = this.stages.find(s => s.getId() === stageId);
+        if (!stage) throw new Error(`[FakeProcess] Stage "${stageId}" not found.`);
+
+        this.events.preStageChange.fire(this.form.createExecutionContext(this));
+        this.activeStage = stage;
+        this.events.stageChange.fire(this.form.createExecutionContext(this));
+    }
+    selectStage(stageId: string) {
+        const stage = this.stages.find(s => s.getId() === stageId);
+        if (!stage) throw new Error(`[FakeProcess] Stage "${stageId}" not found.`);
+
+        this.events.stageSelected.fire(this.form.createExecutionContext(stage));
+    }
+
+    addOnProcessStatusChange(handler: Handler) { this.events.processStatusChange.add(handler); }
+    removeOnProcessStatusChange(handler: Handler) { this.events.processStatusChange.remove(handler); }
+    addOnPreProcessStatusChange(handler: Handler) { this.events.preProcessStatusChange.add(handler); }
+    removeOnPreProcessStatusChange(handler: Handler) { this.events.preProcessStatusChange.remove(handler); }
+    addOnPreStageChange(handler: Handler) { this.events.preStageChange.add(handler); }
+    removeOnPreStageChange(handler: Handler) { this.events.preStageChange.remove(handler); }
+    addOnStageChange(handler: Handler) { this.events.stageChange.add(handler); }
+    removeOnStageChange(handler: Handler) { this.events.stageChange.remove(handler); }
+    addOnStageSelected(handler: Handler) { this.events.stageSelected.add(handler); }
+    removeOnStageSelected(handler: Handler) { this.events.stageSelected.remove(handler); }
+}
+
+
+export class FakeEntity {
+    readonly onSave = new FakeEventHandlers();
+    readonly onPostSave = new FakeEventHandlers();
+
+    constructor(private readonly form: FakeFormContext, private readonly entityName: string, public id: string) { }
+
+    get attributes() { return this.form.attributes; }
+
+    getEntityName() { return this.entityName; }
+    getId() { return this.id; }
+    getEntityReference() { return { entityType: this.entityName, id: this.id, name: "" }; }
+    getPrimaryAttributeValue() { return ""; }
+    getIsDirty() { return this.form.attributes.get().some(attribute => attribute.getIsDirty()); }
+    getDataXml() { return ""; }
+    isValid() { return true; }
+
+    addOnSave(handler: Handler) { this.onSave.add(handler); }
+    removeOnSave(handler: Handler) { this.onSave.remove(handler); }
+    addOnPostSave(handler: Handler) { this.onPostSave.add(handler); }
+    removeOnPostSave(handler: Handler) { this.onPostSave.remove(handler); }
+}
+
+
+export type FakeSaveResult = {
+    /** `true` when a handler called `preventDefault`. */
+    prevented: boolean;
+}
+
+export class FakeData {
+    readonly entity: FakeEntity;
+    readonly process: FakeProcess;
+    readonly onLoad = new FakeEventHandlers();
+
+    constructor(private readonly form: FakeFormContext, options: FakeFormOptions) {
+        this.entity = new FakeEntity(form, options.entityName ?? "account", options.entityId ?? "");
+        this.process = new FakeProcess(form, options.process);
+    }
+
+    get attributes() { return this.form.attributes; }
+
+    addOnLoad(handler: Handler) { this.onLoad.add(handler); }
+    removeOnLoad(handler: Handler) { this.onLoad.remove(handler); }
+    isValid() { return true; }
+    getIsDirty() { return this.entity.getIsDirty(); }
+    refresh(save = false) {
+        if (save) this.form.save({ saveMode: XrmEnum.SaveMode.Save });
+        this.onLoad.fire(this.form.createExecutionContext(this.entity));
+        return Promise.resolve(undefined);
+    }
+    save(saveOptions?: Xrm.SaveOptions) {
+        const result = this.form.save(saveOptions);
+        return result.prevented ? Promise.reject(new Error("[FakeData] Save cancelled.")) : Promise.resolve(undefined);
+    }
+}
+
+
+export class FakeUi {
+    readonly onLoad = new FakeEventHandlers();
+    readonly loaded = new FakeEventHandlers();
+    readonly tabs: FakeCollection<FakeTab>;
+    readonly formNotifications = new Map<string, { message: string; level: Xrm.FormNotificationLevel; }>();
+    closed = false;
+
+    constructor(private readonly form: FakeFormContext, public formType: XrmEnum.FormType, tabs: FakeTab[]) {
+        this.tabs = new FakeCollection(tabs);
+    }
+
+    get controls() { return this.form.controls; }
+    get process() { return null; }
+
+    getFormType() { return this.formType; }
+    getViewPortHeight() { return 0; }
+    getViewPortWidth() { return 0; }
+    close() { this.closed = true; }
+    refreshRibbon() { }
+    setFormEntityName() { }
+    setFormNotification(message: string, level: Xrm.FormNotificationLevel, uniqueId: string) {
+        this.formNotifications.set(uniqueId, { message, level });
+        return true;
+    }
+    clearFormNotification(uniqueId: string) {
+        return this.formNotifications.delete(uniqueId);
+    }
+
+    addOnLoad(handler: Handler) { this.onLoad.add(handler); }
+    removeOnLoad(handler: Handler) { this.onLoad.remove(handler); }
+    addLoaded(handler: Handler) { this.loaded.add(handler); }
+    removeLoaded(handler: Handler) { this.loaded.remove(handler); }
+}
+
+
+/**
+ * In-memory `Xrm.FormContext` exposing attributes, controls, tabs, subgrids, a business process flow and the form type.
+ *
+ * @remarks
+ * Only the members used by form scripts are implemented. Use {@link FakeFormContext.asFormContext} to pass it where an `Xrm.FormContext` is expected.
+ */
+export class FakeFormContext {
+    readonly attributes = new FakeCollection<FakeAttribute>();
+    readonly controls = new FakeCollection<FakeControl>();
+    readonly data: FakeData;
+    readonly ui: FakeUi;
+
+    private readonly sharedVariables = new Map<string, unknown>();
+
+    constructor(options: FakeFormOptions = {}) {
+        for (const attributeOptions of options.attributes ?? []) {
+            const attribute = new FakeAttribute(this, attributeOptions.name, attributeOptions.type ?? "string", attributeOptions.value, attributeOptions.requiredLevel ?? "none");
+            this.attributes.push(attribute);
+
+            for (const controlName of attributeOptions.controls ?? [attributeOptions.name]) {
+                const control = new FakeControl(this, controlName, attribute.getAttributeType() === "lookup" ? "lookup" : "standard", attribute);
+                attribute.controls.push(control);
+                this.controls.push(control);
+            }
+        }
+        for (const controlOptions of options.controls ?? []) {
+            const attribute = controlOptions.attributeName ? this.attributes.get(controlOptions.attributeName) : null;
+            const control = new FakeControl(this, controlOptions.name, controlOptions.type ?? "standard", attribute);
+            attribute?.controls.push(control);
+            this.controls.push(control);
+        }
+        for (const gridName of options.subgrids ?? []) {
+            this.controls.push(new FakeControl(this, gridName, "subgrid", null));
+        }
+
+        const tabs = (options.tabs ?? []).map(tabOptions => {
+            const tab = new FakeTab(this, tabOptions.name, tabOptions.displayState ?? "expanded");
+            for (const sectionOptions of tabOptions.sections ?? []) {
+                const section = new FakeSection(tab, sectionOptions.name);
+                for (const controlName of sectionOptions.controls ?? []) {
+                    const control = this.controls.get(controlName);
+                    if (!control) continue;
+                    control.parent = section;
+                    section.controls.push(control);
+                }
+                tab.sections.push(section);
+            }
+            return tab;
+        });
+
+        this.data = new FakeData(this, options);
+        this.ui = new FakeUi(this, options.formType ?? XrmEnum.FormType.Update, tabs);
+    }
+
+    getAttribute(): FakeAttribute[];
+    getAttribute(attribute: string | number): FakeAttribute | null;
+    getAttribute(predicate: (attribute: FakeAttribute, index: number) => boolean): FakeAttribute[];
+    getAttribute(arg?: string | number | ((attribute: FakeAttribute, index: number) => boolean)): FakeAttribute[] | FakeAttribute | null {
+        if (arg === undefined) return this.attributes.get();
+        return typeof arg === "function" ? this.attributes.get(arg) : this.attributes.get(arg);
+    }
+    getControl(): FakeControl[];
+    getControl(control: string | number): FakeControl | null;
+    getControl(predicate: (control: FakeControl, index: number) => boolean): FakeControl[];
+    getControl(arg?: string | number | ((control: FakeControl, index: number) => boolean)): FakeControl[] | FakeControl | null {
+        if (arg === undefined) return this.controls.get();
+        return typeof arg === "function" ? this.controls.get(arg) : this.controls.get(arg);
+    }
+
+    /**
+     * Creates an execution context whose event source is the given component.
+     */
+    createExecutionContext(eventSource: unknown, eventArgs?: unknown): Xrm.Events.EventContext {
+        return {
+            getFormContext: () => this.asFormContext(),
+            getEventSource: () => eventSource,
+            getEventArgs: () => eventArgs,
+            getDepth: () => 1,
+            getContext: () => typeof Xrm === "undefined" ? undefined : Xrm.Utility.getGlobalContext(),
+            getSharedVariable: (key: string) => this.sharedVariables.get(key),
+            setSharedVariable: (key: string, value: unknown) => { this.sharedVariables.set(key, value); },
+        } as unknown as Xrm.Events.EventContext;
+    }
+
+    /**
+     * Fires the OnSave handlers then, if the save has not been cancelled, commits the attribute values and fires the OnPostSave handlers.
+     */
+    save(saveOptions?: Xrm.SaveOptions): FakeSaveResult {
+        let prevented = false;
+        const saveMode = saveOptions?.saveMode ?? XrmEnum.SaveMode.Save;
+        const saveEventArgs = {
+            getSaveMode: () => saveMode,
+            preventDefault: () => { prevented = true; },
+            preventDefaultOnError: () => { },
+            isDefaultPrevented: () => prevented,
+            disableAsyncTimeout: () => { },
+            getEntityReference: () => this.data.entity.getEntityReference(),
+        };
+
+        this.data.entity.onSave.fire(this.createExecutionContext(this.data.entity, saveEventArgs));
+        if (prevented) return { prevented };
+
+        this.attributes.forEach(attribute => attribute.commit());
+        if (this.ui.getFormType() === XrmEnum.FormType.Create) {
+            this.ui.formType = XrmEnum.FormType.Update;
+        }
+        this.data.entity.onPostSave.fire(this.createExecutionContext(this.data.entity, {
+            getEntityReference: () => this.data.entity.getEntityReference(),
+            getIsSaveSuccess: () => true,
+            getSaveErrorInfo: () => null,
+        }));
+
+        return { prevented };
+    }
+
+    asFormContext(): Xrm.FormContext {
+        return this as unknown as Xrm.FormContext;
+    }
+}
+
+export default FakeFormContext;
@@ -0,0 +1,235 @@
+import type FormEventHandlerBase from "../core/HandlerBase";
+import { getFormEvents } from "../core/Registry";
+import { FakeCollection, FakeFormContext, type FakeFormOptions, type FakeSaveResult } from "./FakeForm";
+
+
+export type FakeGlobalContextOptions = {
+    /** Names of the security roles of the current user. */
+    roles?: string[];
+    /** @defaultValue "Web" */
+    client?: Xrm.Client;
+}
+
+export type FormHarnessOptions = FakeFormOptions & FakeGlobalContextOptions;
+
+export type HandlerCall = {
+    functionName: string;
+    args: unknown[];
+}
+
+type HandlerClass<T extends FormEventHandlerBase> = new (executionContext: Xrm.Events.EventContext) => T;
+
+
+/**
+ * Runs a `FormEventHandlerBase` subclass against an in-memory form, outside of Dynamics 365.
+ *
+ * @remarks
+ * The harness installs a fake `Xrm` global (global context, navigation) and records every decorated method called by the dispatcher.
+ *
+ * @example
+ * ```ts
+ * const harness = new FormHarness({ attributes: [{ name: "name" }] });
+ * harness.load(AccountFormHandler);
+ * harness.fireChange("name", "Contoso");
+ * harness.assertRan("onNameChange");
+ * ```
+ */
+export class FormHarness<T extends FormEventHandlerBase = FormEventHandlerBase> {
+    readonly formContext: FakeFormContext;
+    readonly calls: HandlerCall[] = [];
+    instance: T | undefined;
+
+    private readonly spiedClasses = new Map<Function, HandlerClass<T>>();
+
+    constructor(options: FormHarnessOptions = {}) {
+        this.formContext = new FakeFormContext(options);
+        installFakeXrm(options);
+    }
+
+    /**
+     * Instantiates the handler class as the form OnLoad function would, then fires the load events.
+     */
+    load(handlerClass: HandlerClass<T>): T {
+        const spiedClass = this.spy(handlerClass);
+        this.instance = new spiedClass(this.formContext.createExecutionContext(null));
+        this.fireLoad();
+        return this.instance;
+    }
+
+    //#region Events
+    /** Fires the form OnLoad, OnDataLoad and Loaded events. */
+    fireLoad() {
+        this.formContext.ui.onLoad.fire(this.formContext.createExecutionContext(null));
+        this.formContext.data.onLoad.fire(this.formContext.createExecutionContext(this.formContext.data.entity));
+        this.formContext.ui.loaded.fire();
+    }
+    /** Fires the OnDataLoad event, as `formContext.data.refresh` does. */
+    fireDataLoad() {
+        this.formContext.data.onLoad.fire(this.formContext.createExecutionContext(this.formContext.data.entity));
+    }
+    /** Optionally sets the attribute value, then fires its OnChange event. */
+    fireChange(attributeName: string, ...value: [unknown?]) {
+        const attribute = this.getAttribute(attributeName);
+        if (value.length > 0) attribute.setValue(value[0]);
+        attribute.fireOnChange();
+    }
+    /** Fires OnSave then, unless a handler called `preventDefault`, OnPostSave. */
+    fireSave(saveOptions: Partial<Xrm.SaveOptions> = {}): FakeSaveResult {
+        return this.formContext.save({ saveMode: saveOptions.saveMode ?? XrmEnum.SaveMode.Save });
+    }
+    expandTab(tabName: string) {
+        this.getTab(tabName).setDisplayState("expanded");
+    }
+    collapseTab(tabName: string) {
+        this.getTab(tabName).setDisplayState("collapsed");
+    }
+    fireSubGridLoad(gridName: string) {
+        this.getControl(gridName).refresh();
+    }
+    fireSubGridRecordSelect(gridName: string) {
+        const control = this.getControl(gridName);
+        control.events.gridRecordSelect.fire(this.formContext.createExecutionContext(control));
+    }
+    firePreSearch(controlName: string) {
+        const control = this.getControl(controlName);
+        control.events.preSearch.fire(this.formContext.createExecutionContext(control));
+    }
+    fireLookupTagClick(controlName: string, tagValue?: Xrm.LookupValue) {
+        const control = this.getControl(controlName);
+        let prevented = false;
+        control.events.lookupTagClick.fire(this.formContext.createExecutionContext(control, {
+            getTagValue: () => tagValue ?? control.getAttribute()?.getValue()?.[0],
+            preventDefault: () => { prevented = true; },
+            isDefaultPrevented: () => prevented,
+        }));
+        return { prevented };
+    }
+    fireOutputChange(controlName: string) {
+        const control = this.getControl(controlName);
+        control.events.outputChange.fire(this.formContext.createExecutionContext(control));
+    }
+    fireReadyStateComplete(controlName: string) {
+        const control = this.getControl(controlName);
+        control.events.readyStateComplete.fire(this.formContext.createExecutionContext(control));
+    }
+    fireStageChange(stageId: string) {
+        this.formContext.data.process.setActiveStage(stageId);
+    }
+    fireStageSelected(stageId: string) {
+        this.formContext.data.process.selectStage(stageId);
+    }
+    fireProcessStatusChange(status: Xrm.ProcessFlow.ProcessStatus) {
+        this.formContext.data.process.setStatus(status);
+    }
+    //#endregion
+
+
+    //#region Assertions
+    /** Returns the number of times the decorated method has been called by the dispatcher. */
+    callCount(functionName: string): number {
+        return this.calls.filter(call => call.functionName === functionName).length;
+    }
+    ran(functionName: string): boolean {
+        return this.callCount(functionName) > 0;
+    }
+    /**
+     * Throws when the decorated method has not been called, or not the expected number of times.
+     */
+    assertRan(functionName: string, times?: number) {
+        const count = this.callCount(functionName);
+        if (times === undefined ? count === 0 : count !== times) {
+            throw new Error(`[FormHarness] Expected "${functionName}" to run ${times ?? "at least once"} time(s), ran ${count} time(s). Calls: ${this.calls.map(call => call.functionName).join(", ") || "none"}.`);
+        }
+    }
+    /**
+     * Throws when the decorated method has been called.
+     */
+    assertNotRan(functionName: string) {
+        const count = this.callCount(functionName);
+        if (count > 0) {
+            throw new Error(`[FormHarness] Expected "${functionName}" not to run, ran ${count} time(s).`);
+        }
+    }
+    /** Clears the recorded calls. */
+    resetCalls() {
+        this.calls.length = 0;
+    }
+    //#endregion
+
+
+    private getAttribute(name: string) {
+        const attribute = this.formContext.attributes.get(name);
+        if (!attribute) throw new Error(`[FormHarness] Attribute "${name}" not found on the fake form.`);
+        return attribute;
+    }
+    private getControl(name: string) {
+        const control = this.formContext.controls.get(name);
+        if (!control) throw new Error(`[FormHarness] Control "${name}" not found on the fake form.`);
+        return control;
+    }
+    private getTab(name: string) {
+        const tab = this.formContext.ui.tabs.get(name);
+        if (!tab) throw new Error(`[FormHarness] Tab "${name}" not found on the fake form.`);
+        return tab;
+    }
+
+    /**
+     * Creates a subclass recording the calls of every decorated method, the decorated class itself is left untouched.
+     */
+    private spy(handlerClass: HandlerClass<T>): HandlerClass<T> {
+        const existingSpiedClass = this.spiedClasses.get(handlerClass);
+        if (existingSpiedClass) return existingSpiedClass;
+
+        const calls = this.calls;
+        const spiedClass = class extends (handlerClass as HandlerClass<FormEventHandlerBase>) { };
+        Object.defineProperty(spiedClass, "name", { value: handlerClass.name });
+
+        for (const { functionName } of getFormEvents(handlerClass)) {
+            const original: unknown = Reflect.get(handlerClass.prototype, functionName);
+            if (typeof original !== "function") continue;
+
+            Reflect.set(spiedClass.prototype, functionName, function (this: T, ...args: unknown[]) {
+                calls.push({ functionName, args });
+                return original.apply(this, args);
+            });
+        }
+
+        this.spiedClasses.set(handlerClass, spiedClass as HandlerClass<T>);
+        return spiedClass as HandlerClass<T>;
+    }
+}
+
+
+/**
+ * Installs a fake `Xrm` global exposing the global context (user roles, client) and the navigation API.
+ */
+export function installFakeXrm(options: FakeGlobalContextOptions = {}) {
+    const roles = (options.roles ?? []).map((name, index) => ({ id: `{00000000-0000-0000-0000-${String(index).padStart(12, "0")}}`, name, entityType: "role" }));
+    const globalContext = {
+        userSettings: {
+            roles: new FakeCollection(roles.map(role => ({ ...role, getName: () => role.name }))),
+            userId: "{00000000-0000-0000-0000-000000000001}",
+            userName: "Test User",
+            languageId: 1033,
+        },
+        client: {
+            getClient: () => options.client ?? "Web",
+            getClientState: () => "Online",
+            getFormFactor: () => 1,
+        },
+        getClientUrl: () => "https://localhost",
+        getVersion: () => "9.2",
+    };
+
+    Object.assign(globalThis, {
+        Xrm: {
+            Utility: {
+                getGlobalContext: () => globalContext,
+            },
+            Navigation: {
+                openForm: () => Promise.resolve({ savedEntityReference: [] }),
+                openAlertDialog: () => Promise.resolve(),
+            },
+        },
+    });
+}
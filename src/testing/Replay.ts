@@ -0,0 +1,125 @@
+import { decodeValue, type EventTrace, type TraceEntry } from "../core/EventTracer";
+import type FormEventHandlerBase from "../core/HandlerBase";
+import { FormEventTypes } from "../core/Types";
+import type { FakeControlOptions, FakeFormOptions } from "./FakeForm";
+import { FormHarness, type FakeGlobalContextOptions } from "./FormHarness";
+
+
+export type ReplayResult<T extends FormEventHandlerBase> = {
+    harness: FormHarness<T>;
+    instance: T;
+    /** First entry of each recorded event the fake form cannot fire (business process flow, knowledge base search, editable grid...). */
+    skipped: TraceEntry[];
+}
+
+type HandlerClass<T extends FormEventHandlerBase> = new (executionContext: Xrm.Events.EventContext) => T;
+
+
+const loadEvents = [FormEventTypes.OnLoad, FormEventTypes.OnDataLoad, FormEventTypes.Loaded];
+
+
+/**
+ * Feeds a trace recorded with `enableTracing` back into a handler class, against a fake form built from the trace.
+ *
+ * @remarks
+ * The form is created with the attributes and tabs captured when the trace started, then the class is loaded and each recorded
+ * event is fired in order, after restoring the attribute values observed when it was delivered. Events are fired synchronously,
+ * timestamps are not reproduced.
+ *
+ * @param trace - The trace, or its JSON export.
+ * @param handlerClass - The class to replay the events against, usually the traced class or a fixed version of it.
+ */
+export function replayTrace<T extends FormEventHandlerBase>(trace: EventTrace | string, handlerClass: HandlerClass<T>, options: FakeGlobalContextOptions = {}): ReplayResult<T> {
+    const eventTrace: EventTrace = typeof trace === "string" ? JSON.parse(trace) : trace;
+
+    const harness = new FormHarness<T>({ ...getFormOptions(eventTrace), ...options });
+    const instance = harness.load(handlerClass);
+    const skipped: TraceEntry[] = [];
+
+    const events = groupByEvent(eventTrace.entries);
+    while (events[0] && loadEvents.includes(events[0].eventType)) events.shift();
+
+    for (const entry of events) {
+        for (const [name, value] of Object.entries(entry.values)) {
+            harness.formContext.attributes.get(name)?.setValue(decodeValue(value));
+        }
+
+        if (!fireEvent(harness, entry)) skipped.push(entry);
+    }
+
+    return { harness, instance, skipped };
+}
+
+
+function fireEvent(harness: FormHarness<any>, entry: TraceEntry): boolean {
+    const componentName = entry.componentName ?? "";
+
+    switch (entry.eventType) {
+        case FormEventTypes.OnDataLoad: harness.fireDataLoad(); return true;
+        case FormEventTypes.OnSave: harness.fireSave({ saveMode: entry.saveMode ?? XrmEnum.SaveMode.Save }); return true;
+        // Fired by the replayed OnSave, unless a handler prevented it.
+        case FormEventTypes.OnPostSave: return true;
+        case FormEventTypes.OnChange: harness.fireChange(componentName); return true;
+        case FormEventTypes.OnTabStateChange:
+        case FormEventTypes.OnTabExpand:
+        case FormEventTypes.OnTabCollapse:
+            if (entry.displayState === "collapsed") harness.collapseTab(componentName);
+            else harness.expandTab(componentName);
+            return true;
+        case FormEventTypes.SubGridOnLoad: harness.fireSubGridLoad(componentName); return true;
+        case FormEventTypes.SubGridOnRecordSelect: harness.fireSubGridRecordSelect(componentName); return true;
+        case FormEventTypes.PreSearch: harness.firePreSearch(componentName); return true;
+        case FormEventTypes.OnLookupTagClick: harness.fireLookupTagClick(componentName); return true;
+        case FormEventTypes.OnReadyStateComplete: harness.fireReadyStateComplete(componentName); return true;
+        case FormEventTypes.OnOutputChange: harness.fireOutputChange(componentName); return true;
+        default: return false;
+    }
+}
+
+/**
+ * Keeps the first entry of each event, the following ones are the other handlers of the same event.
+ */
+function groupByEvent(entries: TraceEntry[]): TraceEntry[] {
+    return entries.filter((entry, index) => entries[index - 1]?.eventId !== entry.eventId);
+}
+
+function getFormOptions(trace: EventTrace): FakeFormOptions {
+    const attributeNames = new Set(trace.attributes.map(attribute => attribute.name));
+    const controls = new Map<string, FakeControlOptions>();
+    const subgrids = new Set<string>();
+
+    for (const { eventType, componentName } of trace.entries) {
+        if (!componentName || attributeNames.has(componentName)) continue;
+
+        switch (eventType) {
+            case FormEventTypes.SubGridOnLoad:
+            case FormEventTypes.SubGridOnRecordSelect:
+                subgrids.add(componentName);
+                break;
+            case FormEventTypes.PreSearch:
+            case FormEventTypes.OnLookupTagClick:
+                controls.set(componentName, { name: componentName, type: "lookup" });
+                break;
+            case FormEventTypes.OnReadyStateComplete:
+                controls.set(componentName, { name: componentName, type: "iframe" });
+                break;
+            case FormEventTypes.OnOutputChange:
+                controls.set(componentName, { name: componentName });
+                break;
+        }
+    }
+
+    return {
+        entityName: trace.entityName,
+        entityId: trace.recordId,
+        ...trace.formType !== undefined && { formType: trace.formType },
+        attributes: trace.attributes.map(attribute => ({
+            name: attribute.name,
+            type: attribute.type as Xrm.Attributes.AttributeType,
+            value: decodeValue(attribute.value),
+        })),
+        controls: [...controls.values()],
+        subgrids: [...subgrids],
+        tabs: trace.tabs,
+    };
+}
@@ -0,0 +1,3 @@
+export * from './FakeForm'
+export * from './FormHarness'
+export * from './Replay'
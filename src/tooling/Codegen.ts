@@ -0,0 +1,186 @@
+import type { FormComponentNames } from "../core/Types";
+import type { FormXmlDefinition } from "./FormXml";
+
+
+/**
+ * Subset of the entity metadata returned by the Web API (`EntityDefinitions(LogicalName='account')?$expand=Attributes`).
+ */
+export type EntityMetadata = {
+    LogicalName: string;
+    Attributes: {
+        LogicalName: string;
+        AttributeType?: string;
+        /** Set for the attributes computed from another one (lookup names, currency base values...), which are not displayed on forms. */
+        AttributeOf?: string | null;
+        IsValidForForm?: boolean;
+    }[];
+}
+
+/**
+ * Component names of a form, `undefined` when the source does not describe the component type (no tab in entity metadata).
+ */
+export type ComponentNameLists = { [K in keyof FormComponentNames]: string[] | undefined };
+
+export type GeneratedComponentNames = {
+    typeName: string;
+    description: string;
+    names: ComponentNameLists;
+}
+
+
+const LOOKUP_ATTRIBUTE_TYPES = ["Lookup", "Customer", "Owner", "PartyList"];
+
+
+/**
+ * Reads entity metadata saved from the Web API: a single entity definition, an array of them or a `{ value: [...] }` response.
+ */
+export function parseEntityMetadata(json: string): EntityMetadata[] {
+    const parsed: unknown = JSON.parse(json);
+    const entities = Array.isArray(parsed) ? parsed : isObject(parsed) && Array.isArray(parsed["value"]) ? parsed["value"] : [parsed];
+
+    return entities.map((entity: unknown, index) => {
+        if (!isObject(entity) || typeof entity["LogicalName"] !== "string" || !Array.isArray(entity["Attributes"])) {
+            throw new Error(`[Codegen] Entity metadata #${index + 1} has no LogicalName or Attributes, expand the Attributes when querying EntityDefinitions.`);
+        }
+        return entity as EntityMetadata;
+    });
+}
+
+/**
+ * Lists the component names of a parsed form.
+ *
+ * @remarks
+ * When the entity metadata is given, the controls bound to a lookup attribute are listed as lookups even if their class is not recognized.
+ */
+export function getFormComponentNames(form: FormXmlDefinition, entity?: EntityMetadata): ComponentNameLists {
+    const lookupAttributes = new Set(entity ? getLookupAttributeNames(entity) : []);
+
+    return {
+        attributes: form.controls.flatMap(control => control.dataFieldName ?? []),
+        controls: form.controls.map(control => control.id),
+        tabs: form.tabs.map(tab => tab.name),
+        lookups: form.controls
+            .filter(control => control.kind === "lookup" || (control.dataFieldName !== undefined && lookupAttributes.has(control.dataFieldName)))
+            .map(control => control.id),
+        subgrids: form.controls.filter(control => control.kind === "subgrid").map(control => control.id),
+        iframes: form.controls.filter(control => control.kind === "iframe" || control.kind === "webresource").map(control => control.id),
+    };
+}
+
+/**
+ * Lists the attribute names of an entity, usable on any of its forms.
+ *
+ * @remarks
+ * Controls are assumed to be named after their attribute. Tabs, subgrids and iframes are not described by the entity metadata and stay untyped.
+ */
+export function getEntityComponentNames(entity: EntityMetadata): ComponentNameLists {
+    const attributes = entity.Attributes
+        .filter(attribute => !attribute.AttributeOf && attribute.IsValidForForm !== false)
+        .map(attribute => attribute.LogicalName);
+
+    return {
+        attributes,
+        controls: attributes,
+        tabs: undefined,
+        lookups: getLookupAttributeNames(entity),
+        subgrids: undefined,
+        iframes: undefined,
+    };
+}
+
+/**
+ * Generates the component name types of the given forms and entities.
+ *
+ * @remarks
+ * Forms are matched with the entity metadata by logical name, a form without entity name uses the only entity given, if any.
+ */
+export function generateComponentNames(forms: FormXmlDefinition[], entities: EntityMetadata[] = []): GeneratedComponentNames[] {
+    const typeNames = new Set<string>();
+    const uniqueTypeName = (typeName: string) => {
+        let uniqueName = typeName;
+        for (let index = 2; typeNames.has(uniqueName); index++) {
+            uniqueName = `${typeName}${index}`;
+        }
+        typeNames.add(uniqueName);
+        return uniqueName;
+    };
+
+    const formTypes = forms.map(form => {
+        const entity = form.entityName !== undefined
+            ? entities.find(entity => entity.LogicalName === form.entityName)
+            : entities.length === 1 ? entities[0] : undefined;
+        const entityName = form.entityName ?? entity?.LogicalName;
+
+        const entityPrefix = toPascalCase(entityName ?? "");
+        const formName = toPascalCase(form.name);
+
+        return {
+            typeName: uniqueTypeName(`${formName.startsWith(entityPrefix) ? "" : entityPrefix}${formName}Form`),
+            description: `Components of the "${form.name}" form${entityName ? ` of the ${entityName} table` : ""}${form.id ? ` (${form.id})` : ""}.`,
+            names: getFormComponentNames(form, entity),
+        };
+    });
+
+    const entityTypes = entities.map(entity => ({
+        typeName: uniqueTypeName(`${toPascalCase(entity.LogicalName)}Entity`),
+        description: `Attributes of the ${entity.LogicalName} table, usable on any of its forms.`,
+        names: getEntityComponentNames(entity),
+    }));
+
+    return [...formTypes, ...entityTypes];
+}
+
+/**
+ * Renders component name types as a TypeScript module, to be passed to `D365Event.for`.
+ *
+ * @example
+ * ```ts
+ * const source = componentNamesToTypeScript(generateComponentNames(parseFormXml(xml, "Main")));
+ * ```
+ */
+export function componentNamesToTypeScript(types: GeneratedComponentNames[]): string {
+    const lines = [
+        "// Generated by d365-event-decorators codegen, do not edit manually.",
+        "",
+    ];
+
+    for (const { typeName, description, names } of types) {
+        lines.push(`/** ${description} */`, `export type ${typeName} = {`);
+        for (const [key, values] of Object.entries(names) as [keyof FormComponentNames, string[] | undefined][]) {
+            const members = toUnionMembers(values);
+            lines.push(members.length <= 3
+                ? `    ${key}: ${members.join(" | ")};`
+                : `    ${key}:${members.map(member => `\n        | ${member}`).join("")};`);
+        }
+        lines.push("}", "");
+    }
+
+    return lines.join("\n");
+}
+
+
+function getLookupAttributeNames(entity: EntityMetadata): string[] {
+    return entity.Attributes
+        .filter(attribute => !attribute.AttributeOf && LOOKUP_ATTRIBUTE_TYPES.includes(attribute.AttributeType ?? ""))
+        .map(attribute => attribute.LogicalName);
+}
+
+function toUnionMembers(values: string[] | undefined): string[] {
+    if (values === undefined) return ["string"];
+
+    const literals = [...new Set(values.filter(value => value !== ""))].sort().map(value => JSON.stringify(value));
+    return literals.length > 0 ? literals : ["never"];
+}
+
+function toPascalCase(value: string): string {
+    const pascalCase = value
+        .split(/[^A-Za-z0-9]+/)
+        .filter(word => word !== "")
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join("");
+    return /^[0-9]/.test(pascalCase) ? `_${pascalCase}` : pascalCase;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null;
+}
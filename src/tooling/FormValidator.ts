@@ -0,0 +1,201 @@
+import { getFormEvents } from "../core/Registry";
+import { ComponentEventType, type ComponentSelector, type ComponentTarget, formatComponentTarget, FormEventTypes, isComponentEventDetail, isComponentSelector, SelectorTypes } from "../core/Types";
+import { type FormControlKind, type FormXmlControl, type FormXmlDefinition, parseFormXml } from "./FormXml";
+
+
+type ComponentExpectation = {
+    /** Grid columns come from the grid view, not from the form XML, and are not checked. */
+    scope: "attribute" | "tab" | "control" | "gridColumn";
+    /** Control kinds accepted by the event, any kind when undefined. */
+    kinds?: FormControlKind[];
+}
+
+const COMPONENT_EXPECTATIONS: Record<ComponentEventType, ComponentExpectation> = {
+    [FormEventTypes.OnChange]: { scope: "attribute" },
+    [FormEventTypes.OnLookupTagClick]: { scope: "control", kinds: ["lookup"] },
+    [FormEventTypes.PreSearch]: { scope: "control", kinds: ["lookup"] },
+    [FormEventTypes.OnTabStateChange]: { scope: "tab" },
+    [FormEventTypes.OnTabExpand]: { scope: "tab" },
+    [FormEventTypes.OnTabCollapse]: { scope: "tab" },
+    [FormEventTypes.SubGridOnLoad]: { scope: "control", kinds: ["subgrid"] },
+    [FormEventTypes.SubGridOnRecordSelect]: { scope: "control", kinds: ["subgrid"] },
+    [FormEventTypes.OnReadyStateComplete]: { scope: "control", kinds: ["iframe", "webresource"] },
+    [FormEventTypes.OnOutputChange]: { scope: "control" },
+    [FormEventTypes.OnResultOpened]: { scope: "control", kinds: ["kbsearch"] },
+    [FormEventTypes.OnSelection]: { scope: "control", kinds: ["kbsearch"] },
+    [FormEventTypes.PostSearch]: { scope: "control", kinds: ["kbsearch"] },
+    [FormEventTypes.EditableGridOnChange]: { scope: "gridColumn" },
+};
+
+
+export type FormValidationIssue = {
+    className: string;
+    functionName: string;
+    eventType: ComponentEventType;
+    /** Component name, or the label of the selector. */
+    componentName: string;
+    problem: "missing" | "wrongKind";
+    message: string;
+}
+
+export type FormValidationResult = {
+    formId: string | undefined;
+    formName: string;
+    entityName: string | undefined;
+    /** Names of the handler classes validated against the form. */
+    classNames: string[];
+    issues: FormValidationIssue[];
+}
+
+/**
+ * Handler class registered on a form, the only pairs checked by {@link validateFormXml}.
+ */
+export type FormHandlerMapping = {
+    /** Name or id of the form, ids are compared without braces and case. */
+    form: string;
+    handlerClass: Function;
+}
+
+
+/**
+ * Checks every component name used by the decorators of a handler class against a parsed form.
+ *
+ * @remarks
+ * A control whose kind cannot be inferred from the form XML is only checked for existence.
+ */
+export function validateForm(handlerClass: Function, form: FormXmlDefinition): FormValidationIssue[] {
+    const issues: FormValidationIssue[] = [];
+
+    for (const formEvent of getFormEvents(handlerClass)) {
+        for (const eventDetail of formEvent.events) {
+            if (!isComponentEventDetail(eventDetail)) continue;
+
+            const expectation = COMPONENT_EXPECTATIONS[eventDetail.type];
+            for (const componentTarget of eventDetail.componentNames) {
+                const issue = checkComponent(form, expectation, componentTarget);
+                if (!issue) continue;
+
+                const componentName = formatComponentTarget(componentTarget);
+                issues.push({
+                    className: handlerClass.name,
+                    functionName: formEvent.functionName,
+                    eventType: eventDetail.type,
+                    componentName,
+                    problem: issue.problem,
+                    message: `${handlerClass.name}.${formEvent.functionName} - ${eventDetail.type} "${componentName}": ${issue.message}`,
+                });
+            }
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Parses a form XML document and validates each form it contains against the handler classes mapped to it.
+ *
+ * @remarks
+ * Forms without mapped handler class are not part of the results.
+ */
+export function validateFormXml(mappings: FormHandlerMapping[], xml: string, sourceName: string): FormValidationResult[] {
+    return parseFormXml(xml, sourceName).flatMap(form => {
+        const handlerClasses = mappings.filter(mapping => isMappedForm(form, mapping.form)).map(mapping => mapping.handlerClass);
+        if (handlerClasses.length === 0) return [];
+
+        return [{
+            formId: form.id,
+            formName: form.name,
+            entityName: form.entityName,
+            classNames: handlerClasses.map(handlerClass => handlerClass.name),
+            issues: handlerClasses.flatMap(handlerClass => validateForm(handlerClass, form)),
+        }];
+    });
+}
+
+/**
+ * Whether the name or id of the form matches the form of a mapping.
+ */
+export function isMappedForm(form: FormXmlDefinition, nameOrId: string): boolean {
+    const normalizeId = (id: string) => id.replace(/[{}]/g, "").toLowerCase();
+    return form.name === nameOrId || (form.id !== undefined && normalizeId(form.id) === normalizeId(nameOrId));
+}
+
+function checkComponent(form: FormXmlDefinition, expectation: ComponentExpectation, componentTarget: ComponentTarget): { problem: FormValidationIssue["problem"]; message: string } | undefined {
+    if (isComponentSelector(componentTarget)) return checkSelector(form, expectation, componentTarget);
+
+    const componentName = componentTarget;
+    switch (expectation.scope) {
+        case "attribute":
+            return form.controls.some(control => control.dataFieldName === componentName)
+                ? undefined
+                : { problem: "missing", message: "no control bound to this attribute on the form." };
+        case "tab":
+            return form.tabs.some(tab => tab.name === componentName)
+                ? undefined
+                : { problem: "missing", message: "tab not found on the form." };
+        case "control": {
+            const control = form.controls.find(control => control.id === componentName);
+            if (!control) return { problem: "missing", message: "control not found on the form." };
+            if (!expectation.kinds || control.kind === "unknown" || expectation.kinds.includes(control.kind)) return undefined;
+            return { problem: "wrongKind", message: `expected a ${expectation.kinds.join(" or ")} control, found a ${control.kind} control.` };
+        }
+        case "gridColumn":
+            return undefined;
+    }
+}
+
+/**
+ * Selectors are resolved against the form XML like the dispatcher resolves them against the form: only a selector matching
+ * no component, or no component of the expected kind, is reported.
+ */
+function checkSelector(form: FormXmlDefinition, expectation: ComponentExpectation, selector: ComponentSelector): { problem: FormValidationIssue["problem"]; message: string } | undefined {
+    if (selector.type === SelectorTypes.Tab && !form.tabs.some(tab => tab.name === selector.tabName)) {
+        return { problem: "missing", message: "tab not found on the form." };
+    }
+    if (selector.type === SelectorTypes.Section && !form.tabs.some(tab => tab.name === selector.tabName && tab.sections.some(section => section.name === selector.sectionName))) {
+        return { problem: "missing", message: "section not found on the form." };
+    }
+
+    if (selector.type === SelectorTypes.Pattern && expectation.scope !== "control") {
+        const names = expectation.scope === "tab" ? form.tabs.map(tab => tab.name) : form.controls.map(control => control.dataFieldName ?? "");
+        return names.some(name => name.search(selector.pattern) >= 0) ? undefined : { problem: "missing", message: "no component matches the pattern on the form." };
+    }
+
+    const controls = getSelectedControls(form, selector);
+    // Attribute types and custom control types cannot be read from the form XML.
+    if (!controls) return undefined;
+    if (controls.length === 0) return { problem: "missing", message: "no control matches the selector on the form." };
+
+    const kinds = expectation.scope === "control" ? expectation.kinds : undefined;
+    if (!kinds || controls.some(control => control.kind === "unknown" || kinds.includes(control.kind))) return undefined;
+    return { problem: "wrongKind", message: `expected ${kinds.join(" or ")} controls, found ${controls.map(control => `a ${control.kind} control (${control.id})`).join(", ")}.` };
+}
+
+function getSelectedControls(form: FormXmlDefinition, selector: ComponentSelector): FormXmlControl[] | undefined {
+    const getTabControlIds = (tabName: string, sectionName?: string) => form.tabs
+        .filter(tab => tab.name === tabName)
+        .flatMap(tab => tab.sections.filter(section => sectionName === undefined || section.name === sectionName))
+        .flatMap(section => section.controlIds);
+
+    switch (selector.type) {
+        case SelectorTypes.AttributeControls:
+            return form.controls.filter(control => control.dataFieldName === selector.attributeName);
+        case SelectorTypes.Pattern:
+            return form.controls.filter(control => control.id.search(selector.pattern) >= 0);
+        case SelectorTypes.Tab: {
+            const controlIds = getTabControlIds(selector.tabName);
+            return form.controls.filter(control => controlIds.includes(control.id));
+        }
+        case SelectorTypes.Section: {
+            const controlIds = getTabControlIds(selector.tabName, selector.sectionName);
+            return form.controls.filter(control => controlIds.includes(control.id));
+        }
+        case SelectorTypes.ControlType: {
+            const knownKinds: FormControlKind[] = ["standard", "lookup", "subgrid", "iframe", "webresource", "kbsearch"];
+            if (!selector.controlTypes.every(controlType => (knownKinds as string[]).includes(controlType))) return undefined;
+            return form.controls.filter(control => (selector.controlTypes as string[]).includes(control.kind));
+        }
+        case SelectorTypes.AttributeType:
+            return undefined;
+    }
+}
@@ -0,0 +1,130 @@
+/**
+ * Kind of a form control, inferred from its `classid` in the form XML.
+ *
+ * @remarks
+ * `unknown` is used for control classes the parser does not recognize (custom controls, notes, timers...).
+ */
+export type FormControlKind = "standard" | "lookup" | "subgrid" | "iframe" | "webresource" | "kbsearch" | "unknown";
+
+export type FormXmlControl = {
+    id: string;
+    classId: string;
+    dataFieldName: string | undefined;
+    kind: FormControlKind;
+}
+
+export type FormXmlSection = {
+    name: string;
+    controlIds: string[];
+}
+
+export type FormXmlTab = {
+    name: string;
+    sections: FormXmlSection[];
+}
+
+export type FormXmlDefinition = {
+    id: string | undefined;
+    name: string;
+    entityName: string | undefined;
+    tabs: FormXmlTab[];
+    /** Every control of the form, header and footer included. */
+    controls: FormXmlControl[];
+}
+
+
+const CONTROL_KINDS: Record<string, FormControlKind> = {
+    "{4273EDBD-AC1D-40D3-9FB2-095C621B552D}": "standard", // Single line of text
+    "{E0DECE4B-6FC8-4A8F-A065-082708572369}": "standard", // Multiple lines of text
+    "{C6D124CA-7EDA-4A60-AEA9-7FB8D318B68F}": "standard", // Whole number
+    "{0D2C745A-E5A8-4C8F-BA63-C6D3BB604660}": "standard", // Decimal number
+    "{C3EFE0C3-0EC6-42BE-8349-CBD9079DFD8E}": "standard", // Floating point number
+    "{533B9E00-756B-4312-95A0-DC888637AC78}": "standard", // Currency
+    "{5B773807-9FB2-42DB-97C3-7A91EFF8ADFF}": "standard", // Date and time
+    "{3EF39988-22BB-4F0B-BBBE-64B5A3748AEE}": "standard", // Choice
+    "{5D68B988-0661-4DB2-BC3E-17598AD3BE6C}": "standard", // Status reason
+    "{67FAC785-CD58-4F9F-ABB3-4B7DDC6ED5ED}": "standard", // Yes/No radio
+    "{B0C6723A-8503-4FD7-BB28-C8A06AC933C2}": "standard", // Yes/No checkbox
+    "{270BD3DB-D9AF-4782-9025-509E298DEC0A}": "lookup",
+    "{E7A81278-8635-4D9E-8D4D-59480B391C5B}": "subgrid",
+    "{FD2A7985-3187-444E-908D-6624B21F69C0}": "iframe",
+    "{9FDF5F91-88B1-47F4-AD53-C11EFC01A01D}": "webresource",
+    "{E616A57F-20E0-4534-8662-A101B5DDF4E0}": "kbsearch",
+};
+
+
+/**
+ * Extracts the tabs, sections and controls of every form contained in an XML document.
+ *
+ * @remarks
+ * Accepts a `customizations.xml` file of an exported solution, a form XML file unpacked by SolutionPackager
+ * (`<forms><systemform>...`) or a bare `<form>` document, in which case `fallbackName` names the form.
+ */
+export function parseFormXml(xml: string, fallbackName: string): FormXmlDefinition[] {
+    const systemForms = [...xml.matchAll(/<systemform\b[^>]*>([\s\S]*?)<\/systemform>/g)].map(match => match[1] ?? "");
+
+    if (systemForms.length === 0) {
+        return [parseForm(xml, undefined, fallbackName, undefined)];
+    }
+
+    return systemForms.map((systemForm, index) => parseForm(
+        systemForm,
+        readElementText(systemForm, "formid"),
+        readLocalizedName(systemForm) ?? `${fallbackName} #${index + 1}`,
+        readElementText(systemForm, "objecttypecode")
+    ));
+}
+
+function parseForm(xml: string, id: string | undefined, name: string, entityName: string | undefined): FormXmlDefinition {
+    const controls = [...xml.matchAll(/<control\b([^>]*?)\/?>/g)].map(match => parseControl(parseAttributes(match[1] ?? "")));
+
+    const tabs = [...xml.matchAll(/<tab\b([^>]*)>([\s\S]*?)<\/tab>/g)].map(tabMatch => ({
+        name: parseAttributes(tabMatch[1] ?? "")["name"] ?? "",
+        sections: [...(tabMatch[2] ?? "").matchAll(/<section\b([^>]*)>([\s\S]*?)<\/section>/g)].map(sectionMatch => ({
+            name: parseAttributes(sectionMatch[1] ?? "")["name"] ?? "",
+            controlIds: [...(sectionMatch[2] ?? "").matchAll(/<control\b([^>]*?)\/?>/g)].map(controlMatch => parseAttributes(controlMatch[1] ?? "")["id"] ?? ""),
+        })),
+    }));
+
+    return { id, name, entityName, tabs, controls };
+}
+
+function parseControl(attributes: Record<string, string>): FormXmlControl {
+    const classId = (attributes["classid"] ?? "").toUpperCase();
+    const kind = attributes["indicationOfSubgrid"] === "true" ? "subgrid" : CONTROL_KINDS[classId] ?? "unknown";
+
+    return {
+        id: attributes["id"] ?? "",
+        classId,
+        dataFieldName: attributes["datafieldname"],
+        kind: kind === "standard" && attributes["datafieldname"] === undefined ? "unknown" : kind,
+    };
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+        attributes[match[1] ?? ""] = decodeEntities(match[2] ?? "");
+    }
+    return attributes;
+}
+
+function readElementText(xml: string, elementName: string): string | undefined {
+    const match = xml.match(new RegExp(`<${elementName}\\b[^>]*>([^<]*)</${elementName}>`));
+    return match?.[1] !== undefined ? decodeEntities(match[1].trim()) : undefined;
+}
+
+function readLocalizedName(xml: string): string | undefined {
+    const localizedNames = xml.match(/<LocalizedNames>([\s\S]*?)<\/LocalizedNames>/)?.[1] ?? "";
+    const firstName = localizedNames.match(/<LocalizedName\b([^>]*?)\/?>/)?.[1];
+    return firstName !== undefined ? parseAttributes(firstName)["description"] : undefined;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&quot;/g, "\"")
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,3 @@
+export * from './FormXml'
+export * from './FormValidator'
+export * from './Codegen'
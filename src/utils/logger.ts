@@ -4,4 +4,8 @@ export function logMessage(logger:(...data: any[]) => void, ...data: any[]) {
 
 export function warnMessage(...data: any[]) {
     logMessage(console.warn, ...data);
-}
\ No newline at end of file
+}
+
+export function errorMessage(...data: any[]) {
+    logMessage(console.error, ...data);
+}
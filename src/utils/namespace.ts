@@ -0,0 +1,18 @@
+/**
+ * Returns the global object at the given dotted path (`Contoso.Account.Main`), creating the missing segments.
+ */
+export function getOrCreateNamespace(namespace: string): Record<string, unknown> {
+    const segments = namespace.split(".");
+    if (segments.some(segment => segment.trim() === "")) {
+        throw new Error(`Invalid namespace "${namespace}".`);
+    }
+
+    return segments.reduce<Record<string, unknown>>((parent, segment) => {
+        const child = parent[segment];
+        if (typeof child === "object" && child !== null) return child as Record<string, unknown>;
+
+        const created: Record<string, unknown> = {};
+        parent[segment] = created;
+        return created;
+    }, globalThis as unknown as Record<string, unknown>);
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import type FormEventHandlerError from "../src/core/Errors";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+const wait = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+
+describe("async OnSave handlers", () => {
+    test("the save is cancelled, then saved again with the same save mode once the handlers resolved", async (t) => {
+        class AsyncSaveHandler extends FormEventHandlerBase {
+            @D365Event.Form.OnSave({ timeout: 100 })
+            async checkDuplicates() { await wait(5); }
+
+            @D365Event.Form.OnSave()
+            onSave() { }
+        }
+        const harness = new FormHarness<AsyncSaveHandler>();
+        harness.load(AsyncSaveHandler);
+        const save = t.mock.method(harness.formContext.data, "save");
+
+        assert.deepEqual(harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose }), { prevented: true });
+        await wait(20);
+
+        assert.equal(save.mock.callCount(), 1);
+        assert.deepEqual(save.mock.calls[0]?.arguments, [{ saveMode: XrmEnum.SaveMode.SaveAndClose }]);
+        assert.equal(harness.formContext.ui.closed, true);
+        // The second save does not run the OnSave handlers of the instance again.
+        harness.assertRan("checkDuplicates", 1);
+        harness.assertRan("onSave", 1);
+    });
+
+    test("the save stays cancelled when a handler rejects or times out", async (t) => {
+        const errors: FormEventHandlerError[] = [];
+        class AsyncSaveHandler extends FormEventHandlerBase {
+            override onHandlerError(error: FormEventHandlerError) { errors.push(error); }
+
+            @D365Event.Form.OnSave({ timeout: 100 })
+            async reject() { throw new Error("rejected"); }
+
+            @D365Event.Form.OnSave({ timeout: 10 })
+            timeout() { return new Promise(() => { }); }
+        }
+        const harness = new FormHarness<AsyncSaveHandler>();
+        harness.load(AsyncSaveHandler);
+        const save = t.mock.method(harness.formContext.data, "save");
+
+        harness.fireSave();
+        await wait(30);
+
+        assert.equal(save.mock.callCount(), 0);
+        assert.deepEqual(errors.map(error => (error.cause as Error).message).sort(), ["Timed out after 10ms.", "rejected"]);
+    });
+
+    test("one save serves the async OnSave handlers of every instance of the form", async (t) => {
+        class FirstHandler extends FormEventHandlerBase {
+            runs = 0;
+
+            @D365Event.Form.OnSave({ timeout: 100 })
+            async checkDuplicates() {
+                this.runs++;
+                await wait(5);
+            }
+        }
+        class SecondHandler extends FormEventHandlerBase {
+            runs = 0;
+
+            @D365Event.Form.OnSave({ timeout: 100 })
+            async checkCredit() {
+                this.runs++;
+                await wait(5);
+            }
+        }
+        const harness = new FormHarness();
+        const first = new FirstHandler(harness.formContext.createExecutionContext(null));
+        const second = new SecondHandler(harness.formContext.createExecutionContext(null));
+        t.after(() => [first, second].forEach(instance => instance.dispose()));
+        const save = t.mock.method(harness.formContext.data, "save");
+
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+        await wait(50);
+
+        assert.equal(save.mock.callCount(), 1);
+        assert.deepEqual([first.runs, second.runs], [1, 1]);
+    });
+
+    test("async OnLoad handlers report their rejection", async () => {
+        const errors: FormEventHandlerError[] = [];
+        class AsyncLoadHandler extends FormEventHandlerBase {
+            override onHandlerError(error: FormEventHandlerError) { errors.push(error); }
+
+            @D365Event.Form.OnLoad()
+            async onLoad() {
+                await wait(1);
+                throw new Error("rejected");
+            }
+        }
+        const harness = new FormHarness<AsyncLoadHandler>();
+        harness.load(AsyncLoadHandler);
+        await wait(10);
+
+        assert.deepEqual(errors.map(error => [error.functionName, error.eventType, (error.cause as Error).message]), [["onLoad", "OnLoad", "rejected"]]);
+    });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { getFormEvents } from "../src/core/Registry";
+import { componentNamesToTypeScript, generateComponentNames, parseEntityMetadata } from "../src/tooling/Codegen";
+import { parseFormXml } from "../src/tooling/FormXml";
+
+
+const formXml = `<forms><systemform><formid>{00000000-0000-0000-0000-000000000001}</formid><objecttypecode>account</objecttypecode>
+<form><tabs><tab name="tab_general"><columns><column><sections><section name="section_main"><rows>
+<row><cell><control id="name" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="name" /></cell></row>
+<row><cell><control id="parentaccountid" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="parentaccountid" /></cell></row>
+<row><cell><control id="contacts" classid="{E7A81278-8635-4d9e-8D4D-59480B391C5B}" indicationOfSubgrid="true" /></cell></row>
+</rows></section></sections></column></columns></tab></tabs></form>
+<LocalizedNames><LocalizedName description="Account Main" languagecode="1033" /></LocalizedNames>
+</systemform></forms>`;
+
+const metadata = JSON.stringify({
+    value: [{
+        LogicalName: "account",
+        Attributes: [
+            { LogicalName: "name", AttributeType: "String" },
+            { LogicalName: "parentaccountid", AttributeType: "Lookup" },
+            { LogicalName: "parentaccountidname", AttributeType: "String", AttributeOf: "parentaccountid" },
+        ],
+    }],
+});
+
+
+describe("codegen", () => {
+    test("generates the component names of the forms and tables", () => {
+        const types = generateComponentNames(parseFormXml(formXml, "account.xml"), parseEntityMetadata(metadata));
+
+        assert.deepEqual(types.map(type => type.typeName), ["AccountMainForm", "AccountEntity"]);
+        assert.deepEqual(types[0]?.names, {
+            attributes: ["name", "parentaccountid"],
+            controls: ["name", "parentaccountid", "contacts"],
+            tabs: ["tab_general"],
+            // Listed from the metadata: the control class does not tell it is a lookup.
+            lookups: ["parentaccountid"],
+            subgrids: ["contacts"],
+            iframes: [],
+        });
+        assert.deepEqual(types[1]?.names, { attributes: ["name", "parentaccountid"], controls: ["name", "parentaccountid"], tabs: undefined, lookups: ["parentaccountid"], subgrids: undefined, iframes: undefined });
+    });
+
+    test("renders the types as a TypeScript module", () => {
+        const source = componentNamesToTypeScript(generateComponentNames(parseFormXml(formXml, "account.xml")));
+
+        assert.match(source, /^\/\*\* Components of the "Account Main" form of the account table \(\{00000000-0000-0000-0000-000000000001\}\)\. \*\/$/m);
+        assert.match(source, /^export type AccountMainForm = \{$/m);
+        assert.match(source, /^ {4}attributes: "name" \| "parentaccountid";$/m);
+        assert.match(source, /^ {4}iframes: never;$/m);
+    });
+
+    test("entity metadata without attributes is rejected", () => {
+        assert.throws(() => parseEntityMetadata(JSON.stringify({ LogicalName: "account" })), /Entity metadata #1 has no LogicalName or Attributes/);
+    });
+
+    test("D365Event.for returns the same decorators, typed against the form", () => {
+        type AccountMainForm = { attributes: "name"; controls: "name"; tabs: "tab_general"; lookups: never; subgrids: never; iframes: never };
+        const AccountEvent = D365Event.for<AccountMainForm>();
+
+        class AccountFormHandler extends FormEventHandlerBase {
+            @AccountEvent.Column.OnChange("name")
+            onNameChange() { }
+
+            // @ts-expect-error "telephone1" is not an attribute of the form.
+            @AccountEvent.Column.OnChange("telephone1")
+            onPhoneChange() { }
+        }
+
+        assert.deepEqual(getFormEvents(AccountFormHandler).map(formEvent => formEvent.functionName), ["onNameChange", "onPhoneChange"]);
+    });
+});
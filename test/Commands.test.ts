@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { type CommandContext, getRegisteredCommands, registerCommands } from "../src/core/Commands";
+import { D365Command } from "../src/core/Decorators";
+import { FakeFormContext } from "../src/testing/FakeForm";
+
+
+class AccountCommands {
+    @D365Command.EnableRule("isApproveEnabled")
+    isApproveEnabled(context: CommandContext) {
+        return context.formContext?.getAttribute("statuscode")?.getValue() === 1 && context.parameters[0] === "extra";
+    }
+
+    @D365Command.EnableRule("isSynced")
+    async isSynced() { return true; }
+
+    @D365Command.DisplayRule("isBroken")
+    isBroken(): boolean { throw new Error("boom"); }
+
+    @D365Command.Action("approve")
+    approve(): void { throw new Error("approval failed"); }
+
+    @D365Command.Action("sync")
+    async sync(): Promise<void> { throw new Error("sync failed"); }
+}
+
+const commands = registerCommands("Contoso.Account.Commands", AccountCommands);
+const getCommand = (name: string) => commands[name] as (...args: unknown[]) => unknown;
+
+
+describe("registerCommands", () => {
+    test("exposes the commands under the global namespace", () => {
+        assert.equal(Reflect.get(Reflect.get(Reflect.get(globalThis, "Contoso"), "Account"), "Commands"), commands);
+        assert.deepEqual(getRegisteredCommands().find(manifest => manifest.className === "AccountCommands")?.commands.map(command => [command.fullName, command.type]), [
+            ["Contoso.Account.Commands.isApproveEnabled", "EnableRule"],
+            ["Contoso.Account.Commands.isSynced", "EnableRule"],
+            ["Contoso.Account.Commands.isBroken", "DisplayRule"],
+            ["Contoso.Account.Commands.approve", "Action"],
+            ["Contoso.Account.Commands.sync", "Action"],
+        ]);
+    });
+
+    test("rules receive the command context and evaluate to a boolean", async () => {
+        const formContext = new FakeFormContext({ attributes: [{ name: "statuscode", type: "optionset", value: 1 }] });
+
+        assert.equal(getCommand("isApproveEnabled")(formContext.asFormContext(), "extra"), true);
+        assert.equal(await getCommand("isSynced")(), true);
+    });
+
+    test("a failing rule is logged and evaluates to false", (t) => {
+        const error = t.mock.method(console, "error", () => { });
+
+        assert.equal(getCommand("isBroken")(), false);
+        assert.match(String(error.mock.calls[0]?.arguments[0]), /AccountCommands\.isBroken failed for "Contoso\.Account\.Commands\.isBroken": boom/);
+    });
+
+    test("a failing action is logged and rejects, synchronous or not", async (t) => {
+        const error = t.mock.method(console, "error", () => { });
+
+        await assert.rejects(Promise.resolve(getCommand("approve")()), /approval failed/);
+        await assert.rejects(Promise.resolve(getCommand("sync")()), /sync failed/);
+        assert.equal(error.mock.callCount(), 2);
+    });
+});
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Compute } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class OrderLineFormHandler extends FormEventHandlerBase {
+    @D365Compute("totalamount", ["quantity", "priceperunit"], { fireOnChange: true })
+    computeTotal(executionContext: Xrm.Events.EventContext) {
+        const formContext = executionContext.getFormContext();
+        return (formContext.getAttribute<Xrm.Attributes.NumberAttribute>("quantity")?.getValue() ?? 0) * (formContext.getAttribute<Xrm.Attributes.NumberAttribute>("priceperunit")?.getValue() ?? 0);
+    }
+
+    @D365Compute("cr123_summary", ["totalamount"])
+    computeSummary(executionContext: Xrm.Events.EventContext) {
+        const total = executionContext.getFormContext().getAttribute("totalamount")?.getValue();
+        return total ? `Total: ${total}` : undefined;
+    }
+}
+
+const createHarness = (formType: XrmEnum.FormType = XrmEnum.FormType.Update) => new FormHarness<OrderLineFormHandler>({
+    formType,
+    attributes: [
+        { name: "quantity", type: "integer", value: 2 },
+        { name: "priceperunit", type: "money", value: 10 },
+        { name: "totalamount", type: "money", value: 20 },
+        { name: "cr123_summary" },
+    ],
+});
+
+
+describe("D365Compute", () => {
+    test("values are computed when a dependency changes, not on load", () => {
+        const harness = createHarness();
+        harness.load(OrderLineFormHandler);
+
+        harness.assertNotRan("computeTotal");
+        assert.equal(harness.formContext.data.entity.getIsDirty(), false);
+
+        harness.fireChange("quantity", 3);
+        assert.equal(harness.formContext.getAttribute("totalamount")?.getValue(), 30);
+    });
+
+    test("fireOnChange runs the computed attributes depending on the value", () => {
+        const harness = createHarness();
+        harness.load(OrderLineFormHandler);
+        harness.fireChange("priceperunit", 5);
+
+        assert.equal(harness.formContext.getAttribute("totalamount")?.getValue(), 10);
+        assert.equal(harness.formContext.getAttribute("cr123_summary")?.getValue(), "Total: 10");
+    });
+
+    test("an unchanged value is not written again and undefined leaves the attribute unchanged", () => {
+        const harness = createHarness();
+        harness.load(OrderLineFormHandler);
+
+        harness.fireChange("quantity", 2);
+        harness.assertRan("computeTotal", 1);
+        harness.assertNotRan("computeSummary");
+
+        harness.fireChange("quantity", 0);
+        assert.equal(harness.formContext.getAttribute("totalamount")?.getValue(), 0);
+        assert.equal(harness.formContext.getAttribute("cr123_summary")?.getValue(), null);
+    });
+
+    test("computed attributes are not attached on read-only forms", () => {
+        const harness = createHarness(XrmEnum.FormType.ReadOnly);
+        harness.load(OrderLineFormHandler);
+        harness.fireChange("quantity", 3);
+
+        harness.assertNotRan("computeTotal");
+        assert.equal(harness.formContext.getAttribute("totalamount")?.getValue(), 20);
+    });
+
+    test("methods firing OnChange in a circle are reported and do not loop", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class CyclicHandler extends FormEventHandlerBase {
+            @D365Compute("b", ["a"], { fireOnChange: true })
+            computeB(executionContext: Xrm.Events.EventContext) {
+                return (executionContext.getFormContext().getAttribute<Xrm.Attributes.NumberAttribute>("a")?.getValue() ?? 0) + 1;
+            }
+
+            @D365Compute("a", ["b"], { fireOnChange: true })
+            computeA(executionContext: Xrm.Events.EventContext) {
+                return (executionContext.getFormContext().getAttribute<Xrm.Attributes.NumberAttribute>("b")?.getValue() ?? 0) + 1;
+            }
+        }
+        const harness = new FormHarness<CyclicHandler>({ attributes: [{ name: "a", type: "integer" }, { name: "b", type: "integer" }] });
+        harness.load(CyclicHandler);
+        harness.fireChange("a", 1);
+
+        assert.equal(harness.formContext.getAttribute("b")?.getValue(), 2);
+        harness.assertRan("computeB", 1);
+        harness.assertNotRan("computeA");
+        assert.ok(warn.mock.calls.some(call => String(call.arguments[0]).includes("computeB")));
+    });
+
+    test("a value resolving once the instance is disposed is not written", async () => {
+        class AsyncHandler extends FormEventHandlerBase {
+            @D365Compute("totalamount", ["quantity"])
+            async computeTotal() {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                return 100;
+            }
+        }
+        const harness = new FormHarness<AsyncHandler>({ attributes: [{ name: "quantity", type: "integer", value: 2 }, { name: "totalamount", type: "money", value: 20 }] });
+        const instance = harness.load(AsyncHandler);
+
+        harness.fireChange("quantity", 3);
+        instance.dispose();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        assert.equal(harness.formContext.getAttribute("totalamount")?.getValue(), 20);
+    });
+});
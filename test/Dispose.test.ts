@@ -0,0 +1,69 @@
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Event.Form.Loaded()
+    onLoaded() { }
+
+    @D365Event.Form.OnSave()
+    onSave() { }
+
+    @D365Event.Column.OnChange("name")
+    onNameChange() { }
+
+    @D365Event.Tab.OnExpand("tab_details")
+    onDetailsExpand() { }
+}
+
+const createHarness = () => new FormHarness<AccountFormHandler>({
+    attributes: [{ name: "name" }],
+    tabs: [{ name: "tab_details", displayState: "collapsed" }],
+});
+
+
+describe("dispose and reapply", () => {
+    test("dispose removes every handler attached by the instance", () => {
+        const harness = createHarness();
+        const instance = harness.load(AccountFormHandler);
+        harness.resetCalls();
+
+        instance.dispose();
+        harness.fireLoad();
+        harness.fireChange("name", "Contoso");
+        harness.fireSave();
+        harness.expandTab("tab_details");
+
+        harness.assertNotRan("onLoaded");
+        harness.assertNotRan("onSave");
+        harness.assertNotRan("onNameChange");
+        harness.assertNotRan("onDetailsExpand");
+    });
+
+    test("reapply attaches the handlers once", () => {
+        const harness = createHarness();
+        const instance = harness.load(AccountFormHandler);
+        harness.resetCalls();
+
+        instance.reapply(harness.formContext.createExecutionContext(null));
+        instance.reapply(harness.formContext.createExecutionContext(null));
+        harness.fireLoad();
+        harness.fireChange("name", "Contoso");
+
+        harness.assertRan("onLoaded", 1);
+        harness.assertRan("onNameChange", 1);
+    });
+
+    test("reapply attaches the handlers of a disposed instance again", () => {
+        const harness = createHarness();
+        const instance = harness.load(AccountFormHandler);
+        instance.dispose();
+
+        instance.reapply(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "Contoso");
+
+        harness.assertRan("onNameChange", 1);
+    });
+});
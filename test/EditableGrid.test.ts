@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import EditableGridHandlerBase from "../src/core/GridHandlerBase";
+import { ErrorPolicy } from "../src/core/Types";
+import { FakeFormContext } from "../src/testing/FakeForm";
+import { installFakeXrm } from "../src/testing/FormHarness";
+
+
+// A grid row exposes the data API of a form context, the fake form stands for it.
+const createRow = () => new FakeFormContext({ attributes: [{ name: "quantity", type: "integer", value: 2 }, { name: "priceperunit", type: "money" }] });
+
+
+describe("EditableGridHandlerBase", () => {
+    test("cell changes only call the handlers of the changed column, in order", () => {
+        installFakeXrm();
+        const calls: string[] = [];
+        class OrderLineGridHandler extends EditableGridHandlerBase {
+            @D365Event.EditableGrid.OnRowSelect()
+            onRowSelect() { calls.push("onRowSelect"); }
+
+            @D365Event.EditableGrid.OnCellChange("quantity", "priceperunit")
+            onAmountChange(executionContext: Xrm.Events.EventContext) { calls.push(`onAmountChange:${(executionContext.getEventSource() as Xrm.Attributes.Attribute).getName()}`); }
+
+            @D365Event.Order.After("onAmountChange")
+            @D365Event.EditableGrid.OnCellChange("quantity")
+            onQuantityChange() { calls.push("onQuantityChange"); }
+        }
+        const row = createRow();
+        const handlers = OrderLineGridHandler.getEventHandlers();
+
+        handlers.onRecordSelect(row.createExecutionContext(null));
+        handlers.onChange(row.createExecutionContext(row.getAttribute("quantity")));
+        handlers.onChange(row.createExecutionContext(row.getAttribute("priceperunit")));
+
+        assert.deepEqual(calls, ["onRowSelect", "onAmountChange:quantity", "onQuantityChange", "onAmountChange:priceperunit"]);
+    });
+
+    test("filters read the row attributes", () => {
+        installFakeXrm();
+        let saves = 0;
+        class OrderLineGridHandler extends EditableGridHandlerBase {
+            @D365Event.Filter.AttributeNotNull("priceperunit")
+            @D365Event.EditableGrid.OnRowSave()
+            onRowSave() { saves++; }
+        }
+        const row = createRow();
+        const handlers = OrderLineGridHandler.getEventHandlers();
+
+        handlers.onSave(row.createExecutionContext(null));
+        row.getAttribute("priceperunit")?.setValue(10);
+        handlers.onSave(row.createExecutionContext(null));
+
+        assert.equal(saves, 1);
+    });
+
+    test("the next grid event creates a new instance once the instance is disposed", () => {
+        installFakeXrm();
+        const instances = new Set<EditableGridHandlerBase>();
+        class DisposingGridHandler extends EditableGridHandlerBase {
+            @D365Event.EditableGrid.OnRowSelect()
+            onRowSelect() {
+                instances.add(this);
+                this.dispose();
+            }
+        }
+        const row = createRow();
+        const handlers = DisposingGridHandler.getEventHandlers();
+        handlers.onRecordSelect(row.createExecutionContext(null));
+        handlers.onRecordSelect(row.createExecutionContext(null));
+
+        assert.equal(instances.size, 2);
+    });
+
+    test("Notify opens an alert dialog", (t) => {
+        installFakeXrm();
+        t.mock.method(console, "error", () => { });
+        const openAlertDialog = t.mock.method(Xrm.Navigation, "openAlertDialog");
+        class FailingGridHandler extends EditableGridHandlerBase {
+            static override errorPolicy = ErrorPolicy.Notify;
+
+            @D365Event.EditableGrid.OnRowSave()
+            onRowSave() { throw new Error("boom"); }
+        }
+        const row = createRow();
+        FailingGridHandler.getEventHandlers().onSave(row.createExecutionContext(null));
+
+        assert.equal(openAlertDialog.mock.callCount(), 1);
+        assert.match((openAlertDialog.mock.calls[0]?.arguments[0] as Xrm.Navigation.AlertStrings).text, /FailingGridHandler\.onRowSave failed on event "EditableGridOnSave"/);
+    });
+});
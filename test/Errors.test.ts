@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import type FormEventHandlerError from "../src/core/Errors";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { ErrorPolicy } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+describe("error isolation", () => {
+    class FailingHandler extends FormEventHandlerBase {
+        static override errorPolicy = ErrorPolicy.Notify;
+        fail = true;
+
+        @D365Event.Order.Priority(1)
+        @D365Event.Column.OnChange("name")
+        check() {
+            if (this.fail) throw new Error("boom");
+        }
+
+        @D365Event.Column.OnChange("name")
+        next() { }
+    }
+
+    test("a throwing handler does not stop the other handlers of the event", (t) => {
+        t.mock.method(console, "error", () => { });
+        const harness = new FormHarness<FailingHandler>({ attributes: [{ name: "name" }] });
+        harness.load(FailingHandler);
+        harness.fireChange("name", "A");
+
+        harness.assertRan("check", 1);
+        harness.assertRan("next", 1);
+    });
+
+    test("Notify displays the error until the handler runs successfully again", (t) => {
+        t.mock.method(console, "error", () => { });
+        const harness = new FormHarness<FailingHandler>({ attributes: [{ name: "name" }] });
+        const instance = harness.load(FailingHandler);
+        const notifications = harness.formContext.ui.formNotifications;
+
+        harness.fireChange("name", "A");
+        assert.match(notifications.get("FailingHandler.check")?.message ?? "", /FailingHandler\.check failed on event "OnChange" for "name": boom/);
+
+        instance.fail = false;
+        harness.fireChange("name", "B");
+        assert.equal(notifications.has("FailingHandler.check"), false);
+    });
+
+    test("PreventSave cancels the save", (t) => {
+        t.mock.method(console, "error", () => { });
+        class SaveHandler extends FormEventHandlerBase {
+            static override errorPolicy = ErrorPolicy.PreventSave;
+
+            @D365Event.Form.OnSave()
+            onSave() { throw new Error("boom"); }
+        }
+        const harness = new FormHarness<SaveHandler>();
+        harness.load(SaveHandler);
+
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+    });
+
+    test("Log only logs the error", (t) => {
+        const error = t.mock.method(console, "error", () => { });
+        class SaveHandler extends FormEventHandlerBase {
+            @D365Event.Form.OnSave()
+            onSave() { throw new Error("boom"); }
+        }
+        const harness = new FormHarness<SaveHandler>();
+        harness.load(SaveHandler);
+
+        assert.deepEqual(harness.fireSave(), { prevented: false });
+        assert.equal(error.mock.callCount(), 1);
+        assert.equal(harness.formContext.ui.formNotifications.size, 0);
+    });
+
+    test("Rethrow throws the wrapped error", () => {
+        class SaveHandler extends FormEventHandlerBase {
+            static override errorPolicy = ErrorPolicy.Rethrow;
+
+            @D365Event.Form.OnSave()
+            onSave() { throw new Error("boom"); }
+        }
+        const harness = new FormHarness<SaveHandler>();
+        harness.load(SaveHandler);
+
+        assert.throws(() => harness.fireSave(), { name: "FormEventHandlerError", cause: new Error("boom") });
+    });
+
+    test("onHandlerError receives the class, method, event and component names", () => {
+        const errors: FormEventHandlerError[] = [];
+        class CustomHandler extends FormEventHandlerBase {
+            override onHandlerError(error: FormEventHandlerError) { errors.push(error); }
+
+            @D365Event.Column.OnChange("name")
+            onNameChange() { throw new Error("boom"); }
+        }
+        const harness = new FormHarness<CustomHandler>({ attributes: [{ name: "name" }] });
+        harness.load(CustomHandler);
+        harness.fireChange("name", "A");
+
+        assert.equal(errors.length, 1);
+        assert.deepEqual([errors[0]?.className, errors[0]?.functionName, errors[0]?.eventType, errors[0]?.componentName], ["CustomHandler", "onNameChange", "OnChange", "name"]);
+    });
+
+    test("registrations whose method is missing are skipped and reported", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class BaseHandler extends FormEventHandlerBase {
+            @D365Event.Form.OnLoad()
+            onLoad() { }
+
+            @D365Event.Form.OnLoad()
+            onLoadAgain() { }
+        }
+        class DisabledLoadHandler extends BaseHandler { }
+        Object.defineProperty(DisabledLoadHandler.prototype, "onLoad", { value: "disabled" });
+
+        const harness = new FormHarness<DisabledLoadHandler>();
+        harness.load(DisabledLoadHandler);
+
+        harness.assertRan("onLoadAgain", 1);
+        const warnings = warn.mock.calls.map(call => String(call.arguments[0]));
+        assert.ok(warnings.some(warning => warning.includes(`DisabledLoadHandler - Method "onLoad" not found on the instance`)), warnings.join("\n"));
+    });
+});
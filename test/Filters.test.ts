@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+describe("filters", () => {
+    class FilteredHandler extends FormEventHandlerBase {
+        @D365Event.Filter.AttributeEquals("statuscode", 1)
+        @D365Event.Column.OnChange("name")
+        whenActive() { }
+
+        @D365Event.Filter.When(formContext => formContext.getAttribute("name")?.getValue() === "Contoso")
+        @D365Event.Column.OnChange("name")
+        whenContoso() { }
+
+        @D365Event.Filter.FormTypes(XrmEnum.FormType.Create)
+        @D365Event.Form.OnLoad()
+        onCreate() { }
+    }
+    const attributes = [{ name: "name" }, { name: "statuscode", type: "optionset" as const, value: 1 }];
+
+    test("runtime filters are evaluated on each event", () => {
+        const harness = new FormHarness<FilteredHandler>({ attributes });
+        harness.load(FilteredHandler);
+        harness.fireChange("name", "Fabrikam");
+        harness.fireChange("statuscode", 2);
+        harness.fireChange("name", "Contoso");
+
+        harness.assertRan("whenActive", 1);
+        harness.assertRan("whenContoso", 1);
+    });
+
+    test("form type filters are evaluated when the handlers are attached", () => {
+        const updateHarness = new FormHarness<FilteredHandler>({ formType: XrmEnum.FormType.Update, attributes });
+        updateHarness.load(FilteredHandler);
+        updateHarness.assertNotRan("onCreate");
+
+        const createHarness = new FormHarness<FilteredHandler>({ formType: XrmEnum.FormType.Create, attributes });
+        createHarness.load(FilteredHandler);
+        createHarness.assertRan("onCreate", 1);
+    });
+
+    test("When receives the form context and the execution context of the event", () => {
+        const sources: unknown[] = [];
+        class PredicateHandler extends FormEventHandlerBase {
+            @D365Event.Filter.When((formContext, executionContext) => {
+                sources.push(executionContext?.getEventSource());
+                return formContext.getAttribute("statuscode")?.getValue() === 1;
+            })
+            @D365Event.Column.OnChange("name")
+            onNameChange() { }
+        }
+        const harness = new FormHarness<PredicateHandler>({ attributes });
+        harness.load(PredicateHandler);
+        harness.fireChange("name", "Contoso");
+
+        assert.deepEqual(sources, [harness.formContext.getAttribute("name")]);
+        harness.assertRan("onNameChange", 1);
+    });
+
+    test("AttributeNotNull skips the handler while the attribute is empty", () => {
+        class NotNullHandler extends FormEventHandlerBase {
+            @D365Event.Filter.AttributeNotNull("name")
+            @D365Event.Column.OnChange("name")
+            onNameChange() { }
+        }
+        const harness = new FormHarness<NotNullHandler>({ attributes });
+        harness.load(NotNullHandler);
+        harness.fireChange("name", null);
+        harness.fireChange("name", "Contoso");
+
+        harness.assertRan("onNameChange", 1);
+    });
+});
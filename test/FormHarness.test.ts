@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FakeFormContext } from "../src/testing/FakeForm";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Event.Form.OnLoad()
+    onLoad() { }
+
+    @D365Event.Column.OnChange("name")
+    onNameChange(executionContext: Xrm.Events.EventContext) {
+        executionContext.getFormContext().getAttribute("description")?.setValue(`About ${executionContext.getFormContext().getAttribute("name")?.getValue()}`);
+    }
+
+    @D365Event.Form.OnSave({ saveModes: [XrmEnum.SaveMode.SaveAndClose] })
+    onSaveAndClose() { }
+
+    @D365Event.Form.OnSave()
+    onSave(executionContext: Xrm.Events.SaveEventContext) {
+        if (!executionContext.getFormContext().getAttribute("name")?.getValue()) executionContext.getEventArgs().preventDefault();
+    }
+
+    @D365Event.Tab.OnExpand("tab_details")
+    onDetailsExpand() { }
+}
+
+const createHarness = () => new FormHarness<AccountFormHandler>({
+    attributes: [{ name: "name" }, { name: "description" }],
+    tabs: [{ name: "tab_details", displayState: "collapsed" }],
+});
+
+
+describe("FakeFormContext", () => {
+    test("exposes attributes, their controls and tabs", () => {
+        const formContext = new FakeFormContext({
+            attributes: [{ name: "name", value: "Contoso", controls: ["name", "header_name"] }],
+            subgrids: ["contactsGrid"],
+            tabs: [{ name: "tab_general", sections: [{ name: "section_main", controls: ["name"] }] }],
+        });
+
+        assert.equal(formContext.getAttribute("name")?.getValue(), "Contoso");
+        assert.deepEqual(formContext.getAttribute("name")?.controls.get().map(control => control.getName()), ["name", "header_name"]);
+        assert.equal(formContext.getControl("contactsGrid")?.getControlType(), "subgrid");
+        assert.equal(formContext.getControl("name")?.getParent()?.getName(), "section_main");
+        assert.equal(formContext.getAttribute("missing"), null);
+    });
+
+    test("tracks dirty attributes until the save commits them", () => {
+        const formContext = new FakeFormContext({ attributes: [{ name: "name", value: "A" }] });
+        formContext.getAttribute("name")?.setValue("B");
+
+        assert.equal(formContext.data.entity.getIsDirty(), true);
+        assert.deepEqual(formContext.save(), { prevented: false });
+        assert.equal(formContext.data.entity.getIsDirty(), false);
+        assert.equal(formContext.getAttribute("name")?.getInitialValue(), "B");
+    });
+});
+
+
+describe("FormHarness", () => {
+    test("load fires the load events", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+
+        harness.assertRan("onLoad", 1);
+        harness.assertNotRan("onNameChange");
+    });
+
+    test("fireChange sets the value and fires OnChange", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        harness.fireChange("name", "Contoso");
+
+        harness.assertRan("onNameChange", 1);
+        assert.equal(harness.formContext.getAttribute("description")?.getValue(), "About Contoso");
+    });
+
+    test("fireChange without value keeps the current value", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        harness.fireChange("name", "Contoso");
+        harness.fireChange("name");
+
+        harness.assertRan("onNameChange", 2);
+        assert.equal(harness.formContext.getAttribute("name")?.getValue(), "Contoso");
+    });
+
+    test("fireSave passes the save mode to the handlers", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        harness.fireChange("name", "Contoso");
+
+        assert.deepEqual(harness.fireSave(), { prevented: false });
+        harness.assertNotRan("onSaveAndClose");
+
+        assert.deepEqual(harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose }), { prevented: false });
+        harness.assertRan("onSaveAndClose", 1);
+        harness.assertRan("onSave", 2);
+    });
+
+    test("fireSave reports a cancelled save", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+    });
+
+    test("expandTab fires TabStateChange only when the display state changes", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        harness.expandTab("tab_details");
+        harness.expandTab("tab_details");
+
+        harness.assertRan("onDetailsExpand", 1);
+    });
+
+    test("the ran assertions report the calls", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+
+        assert.equal(harness.ran("onLoad"), true);
+        assert.equal(harness.callCount("onNameChange"), 0);
+        assert.throws(() => harness.assertRan("onNameChange"), /Expected "onNameChange" to run at least once time\(s\), ran 0 time\(s\)/);
+        assert.throws(() => harness.assertRan("onLoad", 2), /ran 1 time\(s\)/);
+        assert.throws(() => harness.assertNotRan("onLoad"), /Expected "onLoad" not to run/);
+
+        harness.resetCalls();
+        harness.assertNotRan("onLoad");
+    });
+
+    test("unknown components are reported", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+
+        assert.throws(() => harness.fireChange("missing"), /Attribute "missing" not found/);
+        assert.throws(() => harness.expandTab("missing"), /Tab "missing" not found/);
+    });
+
+    test("the decorated class is left untouched", () => {
+        const harness = createHarness();
+        const instance = harness.load(AccountFormHandler);
+
+        assert.ok(instance instanceof AccountFormHandler);
+        assert.equal(instance.constructor.name, "AccountFormHandler");
+        assert.equal(Object.hasOwn(AccountFormHandler.prototype, "onLoad"), true);
+        assert.equal(harness.calls[0]?.functionName, "onLoad");
+    });
+});
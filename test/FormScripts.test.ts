@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import { getRegisteredFormScripts, registerFormScript } from "../src/core/FormScripts";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { InstancePolicy } from "../src/core/Types";
+import { FakeFormContext } from "../src/testing/FakeForm";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    static override instancePolicy = InstancePolicy.Reuse;
+    changes = 0;
+
+    @D365Event.Column.OnChange("name")
+    onNameChange() { this.changes++; }
+}
+
+class ContactFormHandler extends FormEventHandlerBase { }
+
+
+describe("registerFormScript", () => {
+    test("exposes an onLoad function under the global namespace and records the manifest", () => {
+        const entryPoints = registerFormScript("Contoso.Account.Main", AccountFormHandler, { library: "contoso_/scripts/account.js" });
+
+        assert.equal(Reflect.get(Reflect.get(Reflect.get(Reflect.get(globalThis, "Contoso"), "Account"), "Main"), "onLoad"), entryPoints.onLoad);
+        assert.deepEqual(getRegisteredFormScripts().find(manifest => manifest.namespace === "Contoso.Account.Main"), {
+            namespace: "Contoso.Account.Main",
+            className: "AccountFormHandler",
+            library: "contoso_/scripts/account.js",
+            onLoad: "Contoso.Account.Main.onLoad",
+        });
+    });
+
+    test("onLoad reuses the instance bound to the form with InstancePolicy.Reuse", () => {
+        const { onLoad } = registerFormScript("Contoso.Account.Main", AccountFormHandler);
+        const formContext = new FakeFormContext({ attributes: [{ name: "name" }] });
+
+        const instance = onLoad(formContext.createExecutionContext(null));
+        formContext.getAttribute("name")?.fireOnChange();
+
+        assert.equal(onLoad(formContext.createExecutionContext(null)), instance);
+        assert.equal(instance.changes, 1);
+    });
+
+    test("registering the namespace again replaces its manifest", () => {
+        registerFormScript("Contoso.Contact.Main", AccountFormHandler);
+        registerFormScript("Contoso.Contact.Main", ContactFormHandler);
+
+        assert.deepEqual(getRegisteredFormScripts().filter(manifest => manifest.namespace === "Contoso.Contact.Main").map(manifest => manifest.className), ["ContactFormHandler"]);
+    });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { validateForm, validateFormXml } from "../src/tooling/FormValidator";
+import { parseFormXml } from "../src/tooling/FormXml";
+
+
+const formXml = `<forms><systemform><formid>{00000000-0000-0000-0000-000000000001}</formid><objecttypecode>incident</objecttypecode>
+<form><tabs><tab name="tab_general"><columns><column><sections><section name="section_main"><rows>
+<row><cell><control id="title" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="title" /></cell></row>
+<row><cell><control id="customerid" classid="{270BD3DB-D9AF-4782-9025-509E298DEC0A}" datafieldname="customerid" /></cell></row>
+<row><cell><control id="contacts" classid="{E7A81278-8635-4d9e-8D4D-59480B391C5B}" indicationOfSubgrid="true" /></cell></row>
+<row><cell><control id="WebResource_map" classid="{9FDF5F91-88B1-47f4-AD53-C11EFC01A01D}" /></cell></row>
+<row><cell><control id="IFRAME_site" classid="{FD2A7985-3187-444e-908D-6624B21F69C0}" /></cell></row>
+<row><cell><control id="kbsearch_articles" classid="{E616A57F-20E0-4534-8662-A101B5DDF4E0}" /></cell></row>
+<row><cell><control id="notescontrol" classid="{06375649-C143-495E-A496-C962E5B4488E}" /></cell></row>
+</rows></section></sections></column></columns></tab></tabs></form>
+<LocalizedNames><LocalizedName description="Case" languagecode="1033" /></LocalizedNames>
+</systemform></forms>`;
+
+
+describe("parseFormXml", () => {
+    test("reads the form, its tabs and sections", () => {
+        const [form] = parseFormXml(formXml, "incident.xml");
+
+        assert.equal(form?.name, "Case");
+        assert.equal(form?.entityName, "incident");
+        assert.deepEqual(form?.tabs.map(tab => [tab.name, tab.sections.map(section => section.name)]), [["tab_general", ["section_main"]]]);
+        assert.equal(form?.tabs[0]?.sections[0]?.controlIds.length, 7);
+    });
+
+    test("infers the kind of each control from its classid", () => {
+        const [form] = parseFormXml(formXml, "incident.xml");
+
+        assert.deepEqual(form?.controls.map(control => [control.id, control.kind]), [
+            ["title", "standard"],
+            ["customerid", "lookup"],
+            ["contacts", "subgrid"],
+            ["WebResource_map", "webresource"],
+            ["IFRAME_site", "iframe"],
+            ["kbsearch_articles", "kbsearch"],
+            ["notescontrol", "unknown"],
+        ]);
+    });
+});
+
+
+describe("validateForm", () => {
+    test("knowledge base search events accept knowledge base search controls only", () => {
+        class CaseFormHandler extends FormEventHandlerBase {
+            @D365Event.KnowledgeBaseSearch.OnResultOpened("kbsearch_articles")
+            onArticleOpened() { }
+
+            @D365Event.KnowledgeBaseSearch.OnSelection("title")
+            onSelection() { }
+        }
+        const [form] = parseFormXml(formXml, "incident.xml");
+        const issues = form ? validateForm(CaseFormHandler, form) : [];
+
+        assert.deepEqual(issues.map(issue => [issue.functionName, issue.componentName, issue.problem]), [["onSelection", "title", "wrongKind"]]);
+    });
+});
+
+
+describe("validateFormXml", () => {
+    const twoFormsXml = `<forms>
+<systemform><formid>{00000000-0000-0000-0000-000000000001}</formid><objecttypecode>account</objecttypecode>
+<form><tabs><tab name="tab_general"><columns><column><sections><section name="section_main"><rows>
+<row><cell><control id="name" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="name" /></cell></row>
+<row><cell><control id="primarycontactid" classid="{270BD3DB-D9AF-4782-9025-509E298DEC0A}" datafieldname="primarycontactid" /></cell></row>
+</rows></section></sections></column></columns></tab></tabs></form>
+<LocalizedNames><LocalizedName description="Account" languagecode="1033" /></LocalizedNames>
+</systemform>
+<systemform><formid>{00000000-0000-0000-0000-000000000002}</formid><objecttypecode>account</objecttypecode>
+<form><tabs><tab name="tab_quick"><columns><column><sections><section name="section_quick"><rows>
+<row><cell><control id="name" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="name" /></cell></row>
+<row><cell><control id="telephone1" classid="{4273EDBD-AC1D-40d3-9FB2-095C621B552D}" datafieldname="telephone1" /></cell></row>
+</rows></section></sections></column></columns></tab></tabs></form>
+<LocalizedNames><LocalizedName description="Account Quick Create" languagecode="1033" /></LocalizedNames>
+</systemform>
+</forms>`;
+
+    class AccountFormHandler extends FormEventHandlerBase {
+        @D365Event.Lookup.OnPreSearch("primarycontactid")
+        onContactSearch() { }
+    }
+    class AccountQuickCreateHandler extends FormEventHandlerBase {
+        @D365Event.Column.OnChange("telephone1")
+        onPhoneChange() { }
+    }
+
+    test("each class is only checked against the forms it is mapped to", () => {
+        const results = validateFormXml([
+            { form: "Account", handlerClass: AccountFormHandler },
+            { form: "00000000-0000-0000-0000-000000000002", handlerClass: AccountQuickCreateHandler },
+        ], twoFormsXml, "account.xml");
+
+        assert.deepEqual(results.map(result => [result.formName, result.classNames, result.issues.length]), [
+            ["Account", ["AccountFormHandler"], 0],
+            ["Account Quick Create", ["AccountQuickCreateHandler"], 0],
+        ]);
+    });
+
+    test("issues are reported for the mapped pairs, forms without mapping are skipped", () => {
+        const results = validateFormXml([{ form: "{00000000-0000-0000-0000-000000000002}", handlerClass: AccountFormHandler }], twoFormsXml, "account.xml");
+
+        assert.deepEqual(results.map(result => result.formName), ["Account Quick Create"]);
+        assert.deepEqual(results[0]?.issues.map(issue => [issue.functionName, issue.componentName, issue.problem]), [["onContactSearch", "primarycontactid", "missing"]]);
+    });
+});
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { getFormEvents } from "../src/core/Registry";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class CommonCustomerHandler extends FormEventHandlerBase {
+    @D365Event.Column.OnChange("telephone1")
+    onPhoneChange() { }
+
+    @D365Event.Form.OnSave()
+    onSaveHandler() { }
+
+    @D365Event.Form.OnLoad()
+    onLoad() { }
+}
+
+@D365Event.Inheritance.Exclude("onSaveHandler")
+class AccountFormHandler extends CommonCustomerHandler {
+    @D365Event.Column.OnChange("telephone2")
+    override onPhoneChange() { }
+}
+
+class KeyAccountFormHandler extends AccountFormHandler { }
+
+const createHarness = <T extends FormEventHandlerBase>() => new FormHarness<T>({ attributes: [{ name: "telephone1" }, { name: "telephone2" }, { name: "name" }] });
+
+
+describe("inherited handlers", () => {
+    test("handlers of the base class are dispatched for the subclass", () => {
+        const harness = createHarness<AccountFormHandler>();
+        harness.load(AccountFormHandler);
+
+        harness.assertRan("onLoad", 1);
+    });
+
+    test("a redeclared method replaces the inherited declaration", () => {
+        const harness = createHarness<AccountFormHandler>();
+        harness.load(AccountFormHandler);
+        harness.fireChange("telephone1", "555-0100");
+        harness.assertNotRan("onPhoneChange");
+
+        harness.fireChange("telephone2", "555-0101");
+        harness.assertRan("onPhoneChange", 1);
+    });
+
+    test("Exclude removes the handler from the class and its subclasses, not from the base class", () => {
+        assert.deepEqual(getFormEvents(AccountFormHandler).map(formEvent => formEvent.functionName).sort(), ["onLoad", "onPhoneChange"]);
+        assert.deepEqual(getFormEvents(KeyAccountFormHandler).map(formEvent => formEvent.functionName).sort(), ["onLoad", "onPhoneChange"]);
+        assert.deepEqual(getFormEvents(CommonCustomerHandler).map(formEvent => formEvent.functionName).sort(), ["onLoad", "onPhoneChange", "onSaveHandler"]);
+
+        const harness = createHarness<KeyAccountFormHandler>();
+        harness.load(KeyAccountFormHandler);
+        harness.fireSave();
+        harness.assertNotRan("onSaveHandler");
+    });
+
+    test("the declarations of the base class are not modified", () => {
+        const harness = createHarness<CommonCustomerHandler>();
+        harness.load(CommonCustomerHandler);
+        harness.fireChange("telephone1", "555-0100");
+        harness.fireSave();
+
+        harness.assertRan("onPhoneChange", 1);
+        harness.assertRan("onSaveHandler", 1);
+    });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+const attributes = [{ name: "name", value: "Contoso" }, { name: "parentaccountid", type: "lookup" as const, value: [{ id: "{1}", entityType: "account", name: "Fabrikam" }] }];
+
+
+describe("D365Event.Inject", () => {
+    test("passes the requested values, undecorated parameters keep the platform arguments", () => {
+        const received: unknown[][] = [];
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Column.OnChange("name")
+            onNameChange(executionContext: Xrm.Events.EventContext, @D365Event.Inject.Value() value: unknown, @D365Event.Inject.ComponentName() attributeName: string) {
+                received.push([(executionContext.getEventSource() as Xrm.Attributes.Attribute).getValue(), value, attributeName]);
+            }
+
+            @D365Event.Form.OnSave()
+            onSave(@D365Event.Inject.SaveMode() saveMode: XrmEnum.SaveMode, @D365Event.Inject.EventArgs() eventArgs: Xrm.Events.SaveEventArguments) {
+                received.push([saveMode, typeof eventArgs.preventDefault]);
+            }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        harness.fireChange("name", "Northwind");
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose });
+
+        assert.deepEqual(received, [["Northwind", "Northwind", "name"], [XrmEnum.SaveMode.SaveAndClose, "function"]]);
+    });
+
+    test("control events receive the value of the bound attribute", () => {
+        const values: unknown[] = [];
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Lookup.OnPreSearch("parentaccountid")
+            onParentPreSearch(@D365Event.Inject.EventSource() control: Xrm.Controls.LookupControl, @D365Event.Inject.Value() value: Xrm.LookupValue[] | null) {
+                values.push(control.getName(), value?.[0]?.name);
+            }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        harness.firePreSearch("parentaccountid");
+
+        assert.deepEqual(values, ["parentaccountid", "Fabrikam"]);
+    });
+
+    test("Loaded receives the form context the handlers were attached with", () => {
+        const received: unknown[] = [];
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Form.Loaded()
+            onLoaded(@D365Event.Inject.ExecutionContext() executionContext: Xrm.Events.EventContext | undefined, @D365Event.Inject.FormContext() formContext: Xrm.FormContext) {
+                received.push(executionContext, formContext.getAttribute("name")?.getValue());
+            }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        assert.deepEqual(received, [undefined, "Contoso"]);
+    });
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { InstancePolicy } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+const createHarness = () => new FormHarness({ attributes: [{ name: "name" }] });
+
+
+describe("InstancePolicy", () => {
+    test("Replace disposes the existing instance", () => {
+        class ReplacedHandler extends FormEventHandlerBase {
+            changes = 0;
+
+            @D365Event.Column.OnChange("name")
+            onNameChange() { this.changes++; }
+        }
+        const harness = createHarness();
+        const first = new ReplacedHandler(harness.formContext.createExecutionContext(null));
+        const second = new ReplacedHandler(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "Contoso");
+
+        assert.deepEqual([first.changes, second.changes], [0, 1]);
+    });
+
+    test("Reuse returns the existing instance from getOrCreate without resetting its state", () => {
+        class ReusedHandler extends FormEventHandlerBase {
+            static override instancePolicy = InstancePolicy.Reuse;
+            changes = 0;
+
+            @D365Event.Column.OnChange("name")
+            onNameChange() { this.changes++; }
+        }
+        const harness = createHarness();
+        const first = ReusedHandler.getOrCreate(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "Contoso");
+
+        const second = ReusedHandler.getOrCreate(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "Fabrikam");
+
+        assert.equal(second, first);
+        assert.equal(first.changes, 2);
+    });
+
+    test("Reuse through the constructor replaces the existing instance and reports it", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class ReusedHandler extends FormEventHandlerBase {
+            static override instancePolicy = InstancePolicy.Reuse;
+            changes = 0;
+
+            @D365Event.Column.OnChange("name")
+            onNameChange() { this.changes++; }
+        }
+        const harness = createHarness();
+        const first = new ReusedHandler(harness.formContext.createExecutionContext(null));
+        const second = new ReusedHandler(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "Contoso");
+
+        assert.notEqual(second, first);
+        assert.deepEqual([first.changes, second.changes], [0, 1]);
+        assert.ok(warn.mock.calls.some(call => String(call.arguments[0]).includes("ReusedHandler.getOrCreate(executionContext)")));
+    });
+
+    test("Throw keeps the existing instance and throws", (t) => {
+        t.mock.method(console, "warn", () => { });
+        class UniqueHandler extends FormEventHandlerBase {
+            static override instancePolicy = InstancePolicy.Throw;
+            changes = 0;
+
+            @D365Event.Column.OnChange("name")
+            onNameChange() { this.changes++; }
+        }
+        const harness = createHarness();
+        const first = new UniqueHandler(harness.formContext.createExecutionContext(null));
+
+        assert.throws(() => new UniqueHandler(harness.formContext.createExecutionContext(null)), /An instance is already bound to this form context/);
+        harness.fireChange("name", "Contoso");
+        assert.equal(first.changes, 1);
+    });
+});
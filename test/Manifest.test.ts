@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { describeHandlers, describeModule, manifestToMarkdown } from "../src/core/Manifest";
+import { ParameterTypes } from "../src/core/Types";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Event.Filter.FormTypes(XrmEnum.FormType.Create, XrmEnum.FormType.Update)
+    @D365Event.Filter.AttributeNotNull("name")
+    @D365Event.Modifier.Debounce(300)
+    @D365Event.Order.Priority(5)
+    @D365Event.Column.OnChange("name", "telephone1")
+    onContactInfoChange(@D365Event.Inject.Value() value: unknown) { return value; }
+
+    @D365Event.Order.After("onContactInfoChange")
+    @D365Event.Form.OnSave({ timeout: 1000 })
+    async onSave() { }
+}
+
+
+describe("describeHandlers", () => {
+    test("describes the events, conditions and Client API of each method", () => {
+        const manifest = describeHandlers(AccountFormHandler);
+
+        assert.equal(manifest.className, "AccountFormHandler");
+        assert.deepEqual(manifest.methods.find(method => method.functionName === "onContactInfoChange"), {
+            functionName: "onContactInfoChange",
+            formTypes: ["Create", "Update"],
+            filters: ["AttributeNotNull(name)"],
+            modifiers: ["Debounce(300)"],
+            priority: 5,
+            after: [],
+            parameters: [{ index: 0, type: ParameterTypes.Value }],
+            validation: undefined,
+            rules: [],
+            compute: undefined,
+            events: [{ type: "OnChange", componentNames: ["name", "telephone1"], api: "attribute.addOnChange", async: false }],
+        });
+        assert.deepEqual(manifest.methods.find(method => method.functionName === "onSave")?.events, [
+            { type: "OnSave", componentNames: [], api: "formContext.data.entity.addOnSave", async: true },
+        ]);
+    });
+
+    test("describeModule only lists the exported classes with decorated methods", () => {
+        const manifests = describeModule({ AccountFormHandler, helper: () => undefined, version: "1.0.0" });
+
+        assert.deepEqual(manifests.map(manifest => manifest.className), ["AccountFormHandler"]);
+    });
+
+    test("manifestToMarkdown renders one row per event", () => {
+        const markdown = manifestToMarkdown([describeHandlers(AccountFormHandler)]);
+
+        assert.match(markdown, /^## AccountFormHandler$/m);
+        assert.match(markdown, /^\| onContactInfoChange \| OnChange \| name, telephone1 \| Create, Update \| AttributeNotNull\(name\), Debounce\(300\), Priority\(5\) \| `attribute.addOnChange` \|$/m);
+        assert.match(markdown, /^\| onSave \| OnSave \(async\) \| - \| All \| After\(onContactInfoChange\) \| `formContext.data.entity.addOnSave` \|$/m);
+    });
+});
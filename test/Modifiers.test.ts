@@ -0,0 +1,67 @@
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+const wait = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+
+describe("modifiers", () => {
+    class ModifiedHandler extends FormEventHandlerBase {
+        @D365Event.Modifier.Once()
+        @D365Event.Column.OnChange("name")
+        once() { }
+
+        @D365Event.Modifier.Debounce(10)
+        @D365Event.Column.OnChange("name")
+        debounced() { }
+
+        @D365Event.Modifier.Throttle(1000)
+        @D365Event.Column.OnChange("name")
+        throttled() { }
+    }
+
+    test("Once, Debounce and Throttle limit the calls", async () => {
+        const harness = new FormHarness<ModifiedHandler>({ attributes: [{ name: "name" }] });
+        harness.load(ModifiedHandler);
+        harness.fireChange("name", "A");
+        harness.fireChange("name", "B");
+        harness.fireChange("name", "C");
+
+        harness.assertRan("once", 1);
+        harness.assertRan("throttled", 1);
+        harness.assertNotRan("debounced");
+
+        await wait(30);
+        harness.assertRan("debounced", 1);
+    });
+
+    test("OncePerRecord runs again for another record", () => {
+        class RecordHandler extends FormEventHandlerBase {
+            @D365Event.Modifier.OncePerRecord()
+            @D365Event.Form.OnDataLoad()
+            onRecordLoad() { }
+        }
+        const harness = new FormHarness<RecordHandler>({ entityId: "{00000000-0000-0000-0000-000000000001}" });
+        harness.load(RecordHandler);
+        harness.fireDataLoad();
+
+        harness.formContext.data.entity.id = "{00000000-0000-0000-0000-000000000002}";
+        harness.fireDataLoad();
+
+        harness.assertRan("onRecordLoad", 2);
+    });
+
+    test("the Once and Throttle state survives reapply", () => {
+        const harness = new FormHarness<ModifiedHandler>({ attributes: [{ name: "name" }] });
+        const instance = harness.load(ModifiedHandler);
+        harness.fireChange("name", "A");
+
+        instance.reapply(harness.formContext.createExecutionContext(null));
+        harness.fireChange("name", "B");
+
+        harness.assertRan("once", 1);
+        harness.assertRan("throttled", 1);
+    });
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+describe("handler order", () => {
+    test("handlers run by priority, then after their dependencies", () => {
+        class OrderedHandler extends FormEventHandlerBase {
+            @D365Event.Order.After("first")
+            @D365Event.Form.OnLoad()
+            second() { }
+
+            @D365Event.Form.OnLoad()
+            third() { }
+
+            @D365Event.Order.Priority(10)
+            @D365Event.Form.OnLoad()
+            first() { }
+        }
+        const harness = new FormHarness<OrderedHandler>();
+        harness.load(OrderedHandler);
+
+        assert.deepEqual(harness.calls.map(call => call.functionName), ["first", "second", "third"]);
+    });
+
+    test("only the members of a cycle are reported and fall back to priority order", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class CyclicHandler extends FormEventHandlerBase {
+            @D365Event.Order.After("b")
+            @D365Event.Form.OnLoad()
+            a() { }
+
+            @D365Event.Order.Priority(5)
+            @D365Event.Order.After("a")
+            @D365Event.Form.OnLoad()
+            b() { }
+
+            @D365Event.Order.After("a")
+            @D365Event.Form.OnLoad()
+            dependent() { }
+
+            @D365Event.Form.OnLoad()
+            independent() { }
+        }
+        const harness = new FormHarness<CyclicHandler>();
+        harness.load(CyclicHandler);
+
+        assert.deepEqual(harness.calls.map(call => call.functionName), ["independent", "b", "a", "dependent"]);
+        const warnings = warn.mock.calls.map(call => String(call.arguments[0]));
+        assert.ok(warnings.some(warning => warning.includes(`Circular @After dependencies between "b, a" for event "OnLoad"`)), warnings.join("\n"));
+    });
+});
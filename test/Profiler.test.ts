@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { HandlerProfiler, type HandlerInvocation } from "../src/core/DecoratorProfiler";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormEventTypes } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Event.Column.OnChange("name")
+    onNameChange() { }
+
+    @D365Event.Column.OnChange("name")
+    onNameCheck() { throw new Error("boom"); }
+}
+
+const invocation = (functionName: string, duration: number, eventType = FormEventTypes.OnChange): HandlerInvocation => ({
+    className: "AccountFormHandler", functionName, eventType, componentName: undefined, start: 0, duration, threw: false,
+});
+
+
+describe("handler profiling", () => {
+    test("records the calls of the profiled instance only", (t) => {
+        t.mock.method(console, "error", () => { });
+        const harness = new FormHarness<AccountFormHandler>({ attributes: [{ name: "name" }] });
+        const instance = harness.load(AccountFormHandler);
+        const profiler = instance.enableProfiling();
+
+        harness.fireChange("name", "A");
+        harness.fireChange("name", "B");
+
+        assert.deepEqual(profiler.callCounts(), { onNameChange: 2, onNameCheck: 2 });
+        assert.deepEqual(profiler.invocations.map(recorded => [recorded.functionName, recorded.componentName, recorded.threw]).slice(0, 2), [["onNameChange", "name", false], ["onNameCheck", "name", true]]);
+
+        instance.disableProfiling();
+        harness.fireChange("name", "C");
+        assert.equal(instance.enableProfiling().invocations.length, 0);
+    });
+
+    test("aggregates the invocations per method and event", () => {
+        const profiler = new HandlerProfiler();
+        [invocation("a", 1), invocation("a", 3), invocation("b", 10), invocation("c", 2, FormEventTypes.OnSave)].forEach(recorded => profiler.record(recorded));
+
+        assert.deepEqual(profiler.slowest(2).map(recorded => [recorded.functionName, recorded.duration]), [["b", 10], ["a", 3]]);
+        assert.deepEqual(profiler.percentileByEvent(50), { OnChange: 3, OnSave: 2 });
+        assert.deepEqual(profiler.statistics().map(statistics => [statistics.functionName, statistics.calls, statistics.total, statistics.average, statistics.max]), [
+            ["b", 1, 10, 10, 10],
+            ["a", 2, 4, 2, 3],
+            ["c", 1, 2, 2, 2],
+        ]);
+    });
+
+    test("only keeps the latest invocations", () => {
+        const profiler = new HandlerProfiler({ maxInvocations: 2 });
+        [invocation("a", 1), invocation("b", 1), invocation("c", 1)].forEach(recorded => profiler.record(recorded));
+
+        assert.deepEqual(profiler.invocations.map(recorded => recorded.functionName), ["b", "c"]);
+    });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event, D365Rule } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Rule.Visible("section_company", ["customertypecode"])
+    @D365Rule.Required("cr123_siret", ["customertypecode"])
+    isCompany(executionContext: Xrm.Events.EventContext) {
+        return executionContext.getFormContext().getAttribute("customertypecode")?.getValue() === 1;
+    }
+
+    @D365Event.Filter.FormTypes(XrmEnum.FormType.Update)
+    @D365Rule.Disabled("accountnumber", ["statuscode"])
+    isLocked(executionContext: Xrm.Events.EventContext) {
+        return executionContext.getFormContext().getAttribute("statuscode")?.getValue() === 2;
+    }
+}
+
+const createHarness = (formType: XrmEnum.FormType = XrmEnum.FormType.Update) => new FormHarness<AccountFormHandler>({
+    formType,
+    attributes: [
+        { name: "customertypecode", type: "optionset", value: 2 },
+        { name: "cr123_siret", requiredLevel: "recommended" },
+        { name: "statuscode", type: "optionset", value: 1 },
+        { name: "accountnumber", controls: ["accountnumber", "header_accountnumber"] },
+    ],
+    tabs: [{ name: "tab_general", sections: [{ name: "section_company" }] }],
+});
+
+
+describe("D365Rule", () => {
+    test("rules are applied on load and when a dependency changes", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        const section = harness.formContext.ui.tabs.get("tab_general")?.sections.get("section_company");
+        const siret = harness.formContext.getAttribute("cr123_siret");
+
+        assert.equal(section?.getVisible(), false);
+        assert.equal(siret?.getRequiredLevel(), "recommended");
+
+        harness.fireChange("customertypecode", 1);
+        assert.equal(section?.getVisible(), true);
+        assert.equal(siret?.getRequiredLevel(), "required");
+
+        harness.fireChange("customertypecode", 2);
+        assert.equal(section?.getVisible(), false);
+        // The level set in the form designer is restored.
+        assert.equal(siret?.getRequiredLevel(), "recommended");
+    });
+
+    test("Disabled applies to every control of the attribute", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        const controls = harness.formContext.getAttribute("accountnumber")?.controls.get() ?? [];
+
+        harness.fireChange("statuscode", 2);
+        assert.deepEqual(controls.map(control => control.getDisabled()), [true, true]);
+
+        harness.fireChange("statuscode", 1);
+        assert.deepEqual(controls.map(control => control.getDisabled()), [false, false]);
+    });
+
+    test("filters decide whether the rule is attached", () => {
+        const harness = createHarness(XrmEnum.FormType.Create);
+        harness.load(AccountFormHandler);
+        harness.fireChange("statuscode", 2);
+
+        harness.assertNotRan("isLocked");
+        assert.equal(harness.formContext.getControl("accountnumber")?.getDisabled(), false);
+    });
+
+    test("targets not found on the form are reported", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class MissingTargetHandler extends FormEventHandlerBase {
+            @D365Rule.Visible("section_missing")
+            isVisible() { return true; }
+        }
+        const harness = new FormHarness<MissingTargetHandler>();
+        harness.load(MissingTargetHandler);
+
+        const warnings = warn.mock.calls.map(call => String(call.arguments[0]));
+        assert.ok(warnings.some(warning => warning.includes(`Target "section_missing" of rule "Visible" on function "isVisible" not found.`)), warnings.join("\n"));
+    });
+
+    test("a predicate resolving once the instance is disposed leaves the form untouched", async () => {
+        class AsyncHandler extends FormEventHandlerBase {
+            @D365Rule.Visible("section_company", ["customertypecode"])
+            async isCompany() {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                return false;
+            }
+        }
+        const harness = new FormHarness<AsyncHandler>({ attributes: [{ name: "customertypecode", type: "optionset" }], tabs: [{ name: "tab_general", sections: [{ name: "section_company" }] }] });
+        const instance = harness.load(AsyncHandler);
+        instance.dispose();
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        assert.equal(harness.formContext.ui.tabs.get("tab_general")?.sections.get("section_company")?.getVisible(), true);
+    });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import type { DirtyAttribute } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    dirtyAttributes: DirtyAttribute[][] = [];
+
+    @D365Event.Form.OnSave({ saveModes: [XrmEnum.SaveMode.Save, XrmEnum.SaveMode.SaveAndNew] })
+    onManualSave() { }
+
+    @D365Event.Form.OnAutoSave()
+    onAutoSave() { }
+
+    @D365Event.Form.OnSaveAndClose()
+    onSaveAndClose() { }
+
+    @D365Event.Form.OnSaveWhenDirty("creditlimit")
+    onCreditLimitSaved(@D365Event.Inject.DirtyAttributes() dirtyAttributes: DirtyAttribute[]) { this.dirtyAttributes.push(dirtyAttributes); }
+
+    @D365Event.Form.OnSaveWhenDirty()
+    onAnySaved() { }
+
+    // Only the OnSave event is restricted by the save mode.
+    @D365Event.Column.OnChange("name")
+    @D365Event.Form.OnAutoSave()
+    onNameChangeOrAutoSave() { }
+}
+
+const createHarness = () => {
+    const harness = new FormHarness<AccountFormHandler>({ attributes: [{ name: "name", value: "Contoso" }, { name: "creditlimit", type: "money", value: 1000 }] });
+    return { harness, instance: harness.load(AccountFormHandler) };
+};
+
+
+describe("save decorators", () => {
+    test("save mode decorators only run for their save modes", () => {
+        const { harness } = createHarness();
+
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.Save });
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndNew });
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.AutoSave });
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose });
+
+        harness.assertRan("onManualSave", 2);
+        harness.assertRan("onAutoSave", 1);
+        harness.assertRan("onSaveAndClose", 1);
+    });
+
+    test("the save mode does not restrict the other events of the method", () => {
+        const { harness } = createHarness();
+
+        harness.fireChange("name", "Fabrikam");
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.Save });
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.AutoSave });
+
+        harness.assertRan("onNameChangeOrAutoSave", 2);
+    });
+
+    test("OnSaveWhenDirty runs when the attributes were modified since the last save and injects them", () => {
+        const { harness, instance } = createHarness();
+
+        harness.fireSave();
+        harness.assertNotRan("onAnySaved");
+
+        harness.fireChange("name", "Fabrikam");
+        harness.fireSave();
+        harness.assertRan("onAnySaved", 1);
+        harness.assertNotRan("onCreditLimitSaved");
+
+        harness.fireChange("creditlimit", 5000);
+        harness.fireSave();
+        harness.fireSave();
+        harness.assertRan("onCreditLimitSaved", 1);
+        assert.deepEqual(instance.dirtyAttributes, [[{ name: "creditlimit", original: 1000, current: 5000 }]]);
+    });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+describe("D365Event.Select.ControlsOf", () => {
+    const attributes = [{ name: "parentaccountid", type: "lookup" as const, controls: ["parentaccountid", "header_parentaccountid", "header_process_parentaccountid", "parentaccountid1"] }];
+
+    test("binds control events to every control of the attribute", () => {
+        const controlNames: string[] = [];
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Lookup.OnPreSearch(D365Event.Select.ControlsOf("parentaccountid"))
+            filterParentAccount(@D365Event.Inject.ComponentName() controlName: string) { controlNames.push(controlName); }
+
+            @D365Event.Lookup.OnPreSearch("parentaccountid")
+            filterBodyControl() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        attributes[0]?.controls.forEach(controlName => harness.firePreSearch(controlName));
+
+        assert.deepEqual(controlNames, ["parentaccountid", "header_parentaccountid", "header_process_parentaccountid", "parentaccountid1"]);
+        harness.assertRan("filterBodyControl", 1);
+    });
+
+    test("selects the attribute itself for attribute events", () => {
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Column.OnChange(D365Event.Select.ControlsOf("parentaccountid"))
+            onParentChange() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        harness.fireChange("parentaccountid", null);
+
+        harness.assertRan("onParentChange", 1);
+    });
+
+    test("an attribute missing from the form is reported under the selector label", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Lookup.OnPreSearch(D365Event.Select.ControlsOf("primarycontactid"))
+            filterPrimaryContact() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        harness.load(AccountFormHandler);
+
+        assert.ok(warn.mock.calls.some(call => String(call.arguments[0]).includes(`"ControlsOf(primarycontactid)" not found or not applicable for event "PreSearch"`)));
+    });
+});
+
+describe("pattern and group selectors", () => {
+    const options = {
+        attributes: [
+            { name: "address1_line1" },
+            { name: "address1_city" },
+            { name: "revenue", type: "money" as const },
+            { name: "creditlimit", type: "money" as const },
+            { name: "parentaccountid", type: "lookup" as const },
+        ],
+        subgrids: ["contacts"],
+        tabs: [
+            { name: "tab_general", sections: [{ name: "section_address", controls: ["address1_line1", "address1_city"] }, { name: "section_finance", controls: ["revenue", "creditlimit"] }] },
+            { name: "tab_related", displayState: "collapsed" as const, sections: [{ name: "section_contacts", controls: ["contacts"] }] },
+        ],
+    };
+
+    test("attribute events resolve the selectors to attributes", () => {
+        class AccountFormHandler extends FormEventHandlerBase {
+            changes: string[] = [];
+
+            // Global patterns are not affected by their lastIndex.
+            @D365Event.Column.OnChange(D365Event.Select.Matching(/^address1_/g))
+            onAddressChange(@D365Event.Inject.ComponentName() attributeName: string) { this.changes.push(`address:${attributeName}`); }
+
+            @D365Event.Column.OnChange(D365Event.Select.InSection("tab_general", "section_finance"))
+            onFinanceChange(@D365Event.Inject.ComponentName() attributeName: string) { this.changes.push(`finance:${attributeName}`); }
+
+            @D365Event.Column.OnChange(D365Event.Select.OfAttributeType("lookup"))
+            onLookupChange(@D365Event.Inject.ComponentName() attributeName: string) { this.changes.push(`lookup:${attributeName}`); }
+
+            @D365Event.Column.OnChange(D365Event.Select.InTab("tab_general"), "address1_city")
+            onGeneralChange() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>(options);
+        const instance = harness.load(AccountFormHandler);
+
+        ["address1_line1", "address1_city", "revenue", "creditlimit", "parentaccountid"].forEach(attributeName => harness.fireChange(attributeName, null));
+
+        assert.deepEqual(instance.changes, ["address:address1_line1", "address:address1_city", "finance:revenue", "finance:creditlimit", "lookup:parentaccountid"]);
+        harness.assertRan("onGeneralChange", 4);
+    });
+
+    test("control and tab events resolve the selectors to controls and tabs", () => {
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.SubGrid.OnLoad(D365Event.Select.OfControlType("subgrid"))
+            onGridLoad() { }
+
+            @D365Event.Lookup.OnPreSearch(D365Event.Select.OfAttributeType("lookup"))
+            onLookupPreSearch() { }
+
+            @D365Event.Tab.OnStateChange(D365Event.Select.Matching(/^tab_/))
+            onTabStateChange() { }
+
+            @D365Event.Tab.OnExpand(D365Event.Select.OfControlType("subgrid"))
+            onGridTabExpand() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>(options);
+        harness.load(AccountFormHandler);
+
+        harness.fireSubGridLoad("contacts");
+        harness.firePreSearch("parentaccountid");
+        harness.collapseTab("tab_general");
+        harness.expandTab("tab_related");
+
+        harness.assertRan("onGridLoad", 1);
+        harness.assertRan("onLookupPreSearch", 1);
+        harness.assertRan("onTabStateChange", 2);
+        harness.assertRan("onGridTabExpand", 1);
+    });
+
+    test("a selector matching nothing applicable is reported", (t) => {
+        const warn = t.mock.method(console, "warn", () => { });
+        class AccountFormHandler extends FormEventHandlerBase {
+            @D365Event.Lookup.OnPreSearch(D365Event.Select.InSection("tab_general", "section_address"))
+            onAddressPreSearch() { }
+        }
+        const harness = new FormHarness<AccountFormHandler>(options);
+        harness.load(AccountFormHandler);
+
+        assert.ok(warn.mock.calls.some(call => String(call.arguments[0]).includes(`"InSection(tab_general, section_address)" not found or not applicable for event "PreSearch"`)));
+    });
+});
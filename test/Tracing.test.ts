@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormEventTypes } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+import { replayTrace } from "../src/testing/Replay";
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Event.Column.OnChange("name")
+    onNameChange() { }
+
+    @D365Event.Column.OnChange("name")
+    onNameCheck() { }
+
+    @D365Event.Form.OnSave()
+    onSave() { }
+}
+
+class FixedAccountFormHandler extends FormEventHandlerBase {
+    names: unknown[] = [];
+    dueDates: unknown[] = [];
+
+    @D365Event.Column.OnChange("name")
+    onNameChange(executionContext: Xrm.Events.EventContext) {
+        this.names.push(executionContext.getFormContext().getAttribute("name")?.getValue());
+        this.dueDates.push(executionContext.getFormContext().getAttribute("duedate")?.getValue());
+    }
+
+    @D365Event.Form.OnSave()
+    onSave() { }
+}
+
+const attributes = [{ name: "name", value: "Contoso" }, { name: "duedate", type: "datetime" as const }];
+
+
+describe("event tracing", () => {
+    test("records one entry per handler with the values changed since the previous entry", () => {
+        const harness = new FormHarness<AccountFormHandler>({ entityId: "{42}", attributes });
+        const tracer = harness.load(AccountFormHandler).enableTracing();
+
+        harness.formContext.getAttribute("duedate")?.setValue(new Date("2026-01-02T00:00:00.000Z"));
+        harness.fireChange("name", "Fabrikam");
+        harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose });
+
+        assert.deepEqual(tracer.entries.map(entry => [entry.eventId, entry.eventType, entry.componentName, entry.functionName, entry.values, entry.saveMode]), [
+            [1, FormEventTypes.OnChange, "name", "onNameChange", { name: "Fabrikam", duedate: { $date: "2026-01-02T00:00:00.000Z" } }, undefined],
+            [1, FormEventTypes.OnChange, "name", "onNameCheck", {}, undefined],
+            [2, FormEventTypes.OnSave, undefined, "onSave", {}, XrmEnum.SaveMode.SaveAndClose],
+        ]);
+        assert.deepEqual(tracer.toJSON().attributes, [{ name: "name", type: "string", value: "Contoso" }, { name: "duedate", type: "datetime", value: null }]);
+        assert.equal(tracer.toJSON().recordId, "{42}");
+    });
+
+    test("only keeps the latest entries", () => {
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        const tracer = harness.load(AccountFormHandler).enableTracing({ maxEntries: 2 });
+
+        harness.fireChange("name", "A");
+        harness.fireSave();
+
+        assert.deepEqual(tracer.entries.map(entry => entry.functionName), ["onNameCheck", "onSave"]);
+    });
+
+    test("a disposed instance cannot be traced", () => {
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        const instance = harness.load(AccountFormHandler);
+        instance.dispose();
+
+        assert.throws(() => instance.enableTracing(), /Cannot trace the events of the disposed AccountFormHandler instance/);
+    });
+});
+
+describe("replayTrace", () => {
+    test("fires each recorded event once, with the recorded values, against another class", () => {
+        const harness = new FormHarness<AccountFormHandler>({ attributes });
+        const tracer = harness.load(AccountFormHandler).enableTracing();
+        harness.formContext.getAttribute("duedate")?.setValue(new Date("2026-01-02T00:00:00.000Z"));
+        harness.fireChange("name", "Fabrikam");
+        harness.fireChange("name", "Northwind");
+        harness.fireSave();
+
+        const { harness: replayHarness, instance, skipped } = replayTrace(tracer.export(), FixedAccountFormHandler);
+
+        assert.deepEqual(instance.names, ["Fabrikam", "Northwind"]);
+        assert.deepEqual(instance.dueDates, [new Date("2026-01-02T00:00:00.000Z"), new Date("2026-01-02T00:00:00.000Z")]);
+        replayHarness.assertRan("onNameChange", 2);
+        replayHarness.assertRan("onSave", 1);
+        assert.deepEqual(skipped, []);
+    });
+
+    test("reports the events the fake form cannot fire", () => {
+        const trace = {
+            className: "AccountFormHandler", entityName: "account", recordId: "", formType: undefined, startedAt: "", attributes: [], tabs: [],
+            entries: [{ eventId: 1, timestamp: 0, eventType: FormEventTypes.EditableGridOnSave, componentName: undefined, functionName: "onRowSave", values: {}, saveMode: undefined, formType: undefined, displayState: undefined }],
+        };
+
+        assert.deepEqual(replayTrace(trace, FixedAccountFormHandler).skipped.map(entry => entry.functionName), ["onRowSave"]);
+    });
+});
@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Validate } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+const wait = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+
+class AccountFormHandler extends FormEventHandlerBase {
+    @D365Validate.Column("creditlimit")
+    validateCreditLimit(executionContext: Xrm.Events.EventContext) {
+        const creditLimit = executionContext.getFormContext().getAttribute<Xrm.Attributes.NumberAttribute>("creditlimit")?.getValue() ?? null;
+        return creditLimit !== null && creditLimit < 0 ? "cannot be negative." : null;
+    }
+
+    @D365Validate.Form()
+    validateName(executionContext: Xrm.Events.EventContext) {
+        return executionContext.getFormContext().getAttribute("name")?.getValue() ? null : "The name is required.";
+    }
+}
+
+const createHarness = () => new FormHarness<AccountFormHandler>({
+    attributes: [{ name: "creditlimit", type: "money", controls: ["creditlimit", "header_creditlimit"] }, { name: "name", value: "Contoso" }],
+});
+
+
+describe("D365Validate", () => {
+    test("column validators set and clear the notification of every control of the attribute", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        const controls = harness.formContext.getAttribute("creditlimit")?.controls.get() ?? [];
+
+        harness.fireChange("creditlimit", -5);
+        assert.deepEqual(controls.map(control => control.notifications.get("AccountFormHandler.validateCreditLimit")), ["cannot be negative.", "cannot be negative."]);
+
+        harness.fireChange("creditlimit", 5);
+        assert.deepEqual(controls.map(control => control.notifications.size), [0, 0]);
+    });
+
+    test("a failing validator cancels the save and displays the summary until the errors are fixed", () => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        const notifications = harness.formContext.ui.formNotifications;
+
+        harness.fireChange("creditlimit", -5);
+        assert.equal(notifications.size, 0);
+
+        harness.formContext.getAttribute("name")?.setValue(null);
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+        assert.equal(notifications.get("AccountFormHandler.validation")?.message, "creditlimit: cannot be negative. The name is required.");
+
+        harness.fireChange("creditlimit", 5);
+        assert.equal(notifications.get("AccountFormHandler.validation")?.message, "The name is required.");
+
+        harness.formContext.getAttribute("name")?.setValue("Contoso");
+        assert.deepEqual(harness.fireSave(), { prevented: false });
+        assert.equal(notifications.size, 0);
+    });
+
+    test("passing synchronous validators let the save go on", (t) => {
+        const harness = createHarness();
+        harness.load(AccountFormHandler);
+        const save = t.mock.method(harness.formContext.data, "save");
+
+        assert.deepEqual(harness.fireSave({ saveMode: XrmEnum.SaveMode.SaveAndClose }), { prevented: false });
+        assert.equal(save.mock.callCount(), 0);
+    });
+
+    test("async validators are awaited before saving again", async (t) => {
+        let duplicates = 1;
+        class AsyncHandler extends FormEventHandlerBase {
+            @D365Validate.Form()
+            async validateDuplicates() {
+                await wait(5);
+                return duplicates > 0 ? `${duplicates} accounts already use this name.` : null;
+            }
+        }
+        const harness = new FormHarness<AsyncHandler>();
+        harness.load(AsyncHandler);
+        const save = t.mock.method(harness.formContext.data, "save");
+
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+        await wait(20);
+        assert.equal(save.mock.callCount(), 0);
+        assert.equal(harness.formContext.ui.formNotifications.get("AsyncHandler.validation")?.message, "1 accounts already use this name.");
+
+        duplicates = 0;
+        assert.deepEqual(harness.fireSave(), { prevented: true });
+        await wait(20);
+        assert.equal(save.mock.callCount(), 1);
+        assert.equal(harness.formContext.ui.formNotifications.size, 0);
+    });
+
+    test("a validator resolving once the instance is disposed leaves the form untouched", async () => {
+        class AsyncHandler extends FormEventHandlerBase {
+            @D365Validate.Column("creditlimit")
+            async validateCreditLimit() {
+                await wait(5);
+                return "cannot be negative.";
+            }
+        }
+        const harness = new FormHarness<AsyncHandler>({ attributes: [{ name: "creditlimit", type: "money", controls: ["creditlimit", "header_creditlimit"] }] });
+        const instance = harness.load(AsyncHandler);
+
+        harness.fireChange("creditlimit", -5);
+        instance.dispose();
+        await wait(20);
+
+        assert.deepEqual(harness.formContext.getAttribute("creditlimit")?.controls.get().map(control => control.notifications.size), [0, 0]);
+    });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { D365Event } from "../src/core/Decorators";
+import FormEventHandlerBase from "../src/core/HandlerBase";
+import type { ValueChange } from "../src/core/Types";
+import { FormHarness } from "../src/testing/FormHarness";
+
+
+class OpportunityFormHandler extends FormEventHandlerBase {
+    changes: ValueChange[] = [];
+
+    @D365Event.Column.OnChange("statuscode")
+    onStatusChange(@D365Event.Inject.ValueChange() valueChange: ValueChange) { this.changes.push(valueChange); }
+
+    @D365Event.Column.OnValueChangedFrom("statuscode", 1, 2)
+    onQualified() { }
+
+    @D365Event.Column.OnValueChangedFrom("statuscode", 2)
+    onLeftQualified() { }
+
+    @D365Event.Column.OnCleared("parentaccountid", "closedate")
+    onCleared() { }
+}
+
+const createHarness = () => {
+    const harness = new FormHarness<OpportunityFormHandler>({
+        attributes: [
+            { name: "statuscode", type: "optionset", value: 1 },
+            { name: "parentaccountid", type: "lookup", value: [{ id: "{00000000-0000-0000-0000-000000000001}", entityType: "account", name: "Contoso" }] },
+            { name: "closedate", type: "datetime" },
+        ],
+    });
+    return { harness, instance: harness.load(OpportunityFormHandler) };
+};
+
+
+describe("value changes", () => {
+    test("OnChange handlers receive the previous value known by the dispatcher", () => {
+        const { harness, instance } = createHarness();
+
+        harness.fireChange("statuscode", 2);
+        harness.fireChange("statuscode", 3);
+        harness.fireDataLoad();
+        harness.fireChange("statuscode", 4);
+
+        assert.deepEqual(instance.changes, [{ previous: 1, current: 2 }, { previous: 2, current: 3 }, { previous: 3, current: 4 }]);
+    });
+
+    test("OnValueChangedFrom only runs on the given transition", () => {
+        const { harness } = createHarness();
+
+        harness.fireChange("statuscode", 3);
+        harness.fireChange("statuscode", 2);
+        harness.assertNotRan("onQualified");
+        harness.assertNotRan("onLeftQualified");
+
+        harness.fireChange("statuscode", 1);
+        harness.fireChange("statuscode", 2);
+        harness.fireChange("statuscode", 2);
+        harness.fireChange("statuscode", 4);
+        harness.assertRan("onQualified", 1);
+        harness.assertRan("onLeftQualified", 2);
+    });
+
+    test("OnCleared only runs when an attribute with a value becomes empty", () => {
+        const { harness } = createHarness();
+
+        harness.fireChange("closedate", null);
+        harness.fireChange("parentaccountid", [{ id: "{00000000-0000-0000-0000-000000000002}", entityType: "account", name: "Fabrikam" }]);
+        harness.assertNotRan("onCleared");
+
+        harness.fireChange("parentaccountid", []);
+        harness.fireChange("parentaccountid", null);
+        harness.assertRan("onCleared", 1);
+    });
+});